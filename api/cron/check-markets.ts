@@ -2,6 +2,8 @@
 // This endpoint is called by Vercel Cron Jobs every 30 minutes
 // Can also be called manually via POST /api/cron/check-markets
 
+import { sendUpstreamError } from "../../server/upstream-error";
+
 export default async function handler(req: any, res: any) {
   // Verify this is a cron request (optional but recommended)
   // Vercel adds a 'x-vercel-cron' header for cron jobs
@@ -24,6 +26,9 @@ export default async function handler(req: any, res: any) {
     res.status(200).json({ success: true, message: "Market check completed" });
   } catch (error) {
     console.error("Error in cron job:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to check markets",
       message: error instanceof Error ? error.message : "Unknown error",
@@ -0,0 +1,37 @@
+// Vercel Cron Job endpoint for checking outcome price movements against the configured rules
+// This endpoint is called by Vercel Cron Jobs every 5 minutes
+// Can also be called manually via POST /api/cron/check-prices
+
+import { sendUpstreamError } from "../../server/upstream-error";
+
+export default async function handler(req: any, res: any) {
+  // Verify this is a cron request (optional but recommended)
+  // Vercel adds a 'x-vercel-cron' header for cron jobs
+  const isCronRequest = req.headers["x-vercel-cron"] === "1";
+  const authHeader = req.headers.authorization;
+  
+  // If CRON_SECRET is set, require authentication (unless it's a verified Vercel cron)
+  if (
+    process.env.CRON_SECRET &&
+    !isCronRequest &&
+    authHeader !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    // Dynamically import to avoid issues in serverless environment
+    const { checkPriceMovements } = await import("../../server/price-monitor");
+    const alerts = await checkPriceMovements();
+    res.status(200).json({ success: true, message: "Price check completed", alerts });
+  } catch (error) {
+    console.error("Error in price cron job:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      error: "Failed to check prices",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
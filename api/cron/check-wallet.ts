@@ -1,5 +1,8 @@
-// Vercel Cron Job endpoint for checking wallet portfolio
+// Vercel Cron Job endpoint for checking tracked wallet portfolios
 // This endpoint is called by Vercel Cron Jobs every 5 minutes
+// Each tracked wallet is only reported on once its own interval has elapsed
+
+import { sendUpstreamError } from "../../server/upstream-error";
 
 export default async function handler(req: any, res: any) {
   console.log("[CRON WALLET] ===== Wallet Check Cron Job Started =====");
@@ -28,19 +31,21 @@ export default async function handler(req: any, res: any) {
     // Dynamically import to avoid issues in serverless environment
     const { checkWalletAndSendReport } = await import("../../server/wallet-monitor");
     console.log("[CRON WALLET] Calling checkWalletAndSendReport...");
-    await checkWalletAndSendReport();
+    const results = await checkWalletAndSendReport();
     console.log("[CRON WALLET] ✅ Wallet check completed successfully");
-    res.status(200).json({ success: true, message: "Wallet check completed" });
+    res.status(200).json({ success: true, message: "Wallet check completed", results });
   } catch (error) {
     console.error("[CRON WALLET] ❌ Error in wallet cron job:", error);
     if (error instanceof Error) {
       console.error("[CRON WALLET] Error message:", error.message);
       console.error("[CRON WALLET] Error stack:", error.stack);
     }
-    res.status(500).json({
-      error: "Failed to check wallet",
-      message: error instanceof Error ? error.message : "Unknown error",
-    });
+    if (!sendUpstreamError(res, error)) {
+      res.status(500).json({
+        error: "Failed to check wallet",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   }
   
   console.log("[CRON WALLET] ===== Wallet Check Cron Job Finished =====");
@@ -0,0 +1,32 @@
+// Vercel Cron Job endpoint for retrying undelivered notifications in the outbox
+// This endpoint is called by Vercel Cron Jobs every 5 minutes
+// Can also be called manually via POST /api/cron/flush-outbox
+
+export default async function handler(req: any, res: any) {
+  // Verify this is a cron request (optional but recommended)
+  // Vercel adds a 'x-vercel-cron' header for cron jobs
+  const isCronRequest = req.headers["x-vercel-cron"] === "1";
+  const authHeader = req.headers.authorization;
+  
+  // If CRON_SECRET is set, require authentication (unless it's a verified Vercel cron)
+  if (
+    process.env.CRON_SECRET &&
+    !isCronRequest &&
+    authHeader !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    // Dynamically import to avoid issues in serverless environment
+    const { flushOutbox } = await import("../../server/notifier");
+    const result = await flushOutbox();
+    res.status(200).json({ success: true, message: "Outbox flush completed", ...result });
+  } catch (error) {
+    console.error("Error in outbox cron job:", error);
+    res.status(500).json({
+      error: "Failed to flush outbox",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * TTL cache for GQL_CLIENT and PUBLIC_CLIENT results
+ *
+ * Query functions opt in by wrapping their fetch in `cached(type, keyParts, ttlMs, fetch)`.
+ * Entries live in memory and, when a persistent backend is registered, are
+ * written through to it so other processes and restarts can reuse them.
+ * Concurrent calls for the same key share one in-flight fetch.
+ */
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Persistent second tier, e.g. the server's storage layer
+ * Values must survive JSON serialization
+ */
+export interface CacheBackend {
+  name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+}
+
+export interface CacheTypeStats {
+  hits: number; // Served from memory or the backend
+  misses: number; // Fetched from upstream
+  coalesced: number; // Joined a fetch already in flight
+}
+
+// Bound on in-memory entries; the oldest are evicted first
+const MAX_MEMORY_ENTRIES = 1000;
+
+const memory = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+const stats = new Map<string, CacheTypeStats>();
+let backend: CacheBackend | null = null;
+
+function cacheKey(type: string, keyParts: unknown[]): string {
+  return `${type}:${JSON.stringify(keyParts)}`;
+}
+
+function statsFor(type: string): CacheTypeStats {
+  let entry = stats.get(type);
+  if (!entry) {
+    entry = { hits: 0, misses: 0, coalesced: 0 };
+    stats.set(type, entry);
+  }
+  return entry;
+}
+
+function remember(key: string, entry: CacheEntry): void {
+  // Re-insert so Map order tracks recency of writes
+  memory.delete(key);
+  memory.set(key, entry);
+  while (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value as string);
+  }
+}
+
+/**
+ * Register (or with null, remove) the persistent backend
+ */
+export function setCacheBackend(next: CacheBackend | null): void {
+  backend = next;
+}
+
+/**
+ * Return a cached value of `type` for `keyParts`, or fetch and cache it for `ttlMs`
+ * Backend errors are logged and treated as misses, so the cache never fails a query
+ */
+export async function cached<T>(
+  type: string,
+  keyParts: unknown[],
+  ttlMs: number,
+  fetch: () => Promise<T>
+): Promise<T> {
+  const key = cacheKey(type, keyParts);
+  const typeStats = statsFor(type);
+  const now = Date.now();
+
+  const local = memory.get(key);
+  if (local && local.expiresAt > now) {
+    typeStats.hits++;
+    return local.value as T;
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    typeStats.coalesced++;
+    return pending as Promise<T>;
+  }
+
+  const load = (async () => {
+    if (backend) {
+      try {
+        const stored = await backend.get<T>(key);
+        if (stored && stored.expiresAt > Date.now()) {
+          typeStats.hits++;
+          remember(key, stored);
+          return stored.value;
+        }
+      } catch (error) {
+        console.warn(`[CACHE] ⚠️ Failed to read "${key}" from ${backend.name}:`, error);
+      }
+    }
+
+    typeStats.misses++;
+    const value = await fetch();
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+    remember(key, entry);
+
+    if (backend) {
+      await backend.set(key, entry).catch((error) => {
+        console.warn(`[CACHE] ⚠️ Failed to write "${key}" to ${backend?.name}:`, error);
+      });
+    }
+    return value;
+  })();
+
+  inFlight.set(key, load);
+  try {
+    return await load;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Drop cached entries: everything, every entry of a type, or one key of a type
+ * @returns the number of in-memory entries removed
+ */
+export async function invalidateCache(type?: string, keyParts?: unknown[]): Promise<number> {
+  const prefix = type === undefined ? "" : keyParts ? cacheKey(type, keyParts) : `${type}:`;
+  let removed = 0;
+
+  for (const key of Array.from(memory.keys())) {
+    if (key.startsWith(prefix)) {
+      memory.delete(key);
+      removed++;
+    }
+  }
+
+  if (backend) {
+    const keys = await backend.keys(prefix);
+    await Promise.all(keys.map((key) => backend!.delete(key)));
+  }
+
+  return removed;
+}
+
+/**
+ * Hit and miss counts per query type since startup
+ */
+export function getCacheStats() {
+  const types: Record<string, CacheTypeStats> = {};
+  const total: CacheTypeStats = { hits: 0, misses: 0, coalesced: 0 };
+  for (const [type, entry] of stats) {
+    types[type] = { ...entry };
+    total.hits += entry.hits;
+    total.misses += entry.misses;
+    total.coalesced += entry.coalesced;
+  }
+
+  return {
+    backend: backend ? backend.name : "memory",
+    entries: memory.size,
+    inFlight: inFlight.size,
+    ...total,
+    types,
+  };
+}
@@ -1,6 +1,20 @@
-import { createPublicClient, http, parseAbi } from "viem";
+import {
+  createPublicClient,
+  custom,
+  http,
+  HttpRequestError,
+  parseAbi,
+  RpcRequestError,
+  TimeoutError,
+} from "viem";
 import { bsc } from "viem/chains";
 import dotenv from "dotenv";
+import {
+  createUpstream,
+  isTransientError,
+  loadUpstreamPolicy,
+  QueryError,
+} from "./resilience";
 
 dotenv.config();
 
@@ -10,9 +24,147 @@ export const ERC20_ABI = parseAbi([
   "function balanceOf(address account) view returns (uint256)",
 ]);
 
+// Timeout and retries from RPC_TIMEOUT_MS / RPC_RETRIES; see resilience.ts
+export const RPC_UPSTREAM = createUpstream(
+  "rpc",
+  loadUpstreamPolicy("RPC", { timeoutMs: 10_000, retries: 2 })
+);
+
+// JSON-RPC "limit exceeded", returned by public nodes when rate limited
+const RPC_LIMIT_EXCEEDED = -32005;
+
+function classifyRpcError(error: unknown): "transient" | QueryError {
+  if (error instanceof TimeoutError) {
+    return "transient";
+  }
+  if (error instanceof HttpRequestError) {
+    // No status means the request never got a response
+    return error.status === undefined || isTransientError(error, error.status)
+      ? "transient"
+      : new QueryError("rpc", error.shortMessage, error);
+  }
+  if (error instanceof RpcRequestError && error.code === RPC_LIMIT_EXCEEDED) {
+    return "transient";
+  }
+  return isTransientError(error)
+    ? "transient"
+    : new QueryError("rpc", error instanceof Error ? error.message : "Unknown error", error);
+}
+
+// viem's own retries are disabled; RPC_UPSTREAM retries with jitter and trips the circuit breaker
+const HTTP_TRANSPORT = http(process.env.NEXT_PUBLIC_RPC_URL || undefined, {
+  timeout: RPC_UPSTREAM.policy.timeoutMs,
+  retryCount: 0,
+})({ chain: bsc, retryCount: 0 });
+
 export const PUBLIC_CLIENT = createPublicClient({
   chain: bsc,
-  transport: process.env.NEXT_PUBLIC_RPC_URL
-    ? http(process.env.NEXT_PUBLIC_RPC_URL)
-    : http(),
+  transport: custom(
+    {
+      request: (args) =>
+        RPC_UPSTREAM.call(() => HTTP_TRANSPORT.request(args), classifyRpcError),
+    },
+    { retryCount: 0 }
+  ),
 });
+
+// BSC mines a block about every 3 seconds; only used for the first guess of a block search
+const BLOCK_TIME_SECONDS = BigInt(3);
+
+// Blocks either side of the estimate checked first; the window doubles until it holds the time
+const SEARCH_WINDOW_BLOCKS = BigInt(100);
+
+// Resolved lookups by unix time; past blocks never change, so entries never go stale
+const BLOCK_AT_CACHE = new Map<bigint, bigint>();
+const BLOCK_AT_CACHE_SIZE = 1000;
+
+async function blockTimestamp(blockNumber: bigint): Promise<bigint> {
+  const block = await PUBLIC_CLIENT.getBlock({ blockNumber });
+  return block.timestamp;
+}
+
+/**
+ * @description Guess the block mined at a time from the block time, then correct the
+ *              guess with the block time actually seen between it and the latest block
+ */
+async function estimateBlockAt(target: bigint, latestNumber: bigint, latestTimestamp: bigint): Promise<bigint> {
+  const behind = (latestTimestamp - target) / BLOCK_TIME_SECONDS;
+  const guess = latestNumber > behind ? latestNumber - behind : BigInt(0);
+  const guessTimestamp = await blockTimestamp(guess);
+  if (guessTimestamp >= latestTimestamp) {
+    return guess;
+  }
+  const refined =
+    latestNumber - ((latestTimestamp - target) * (latestNumber - guess)) / (latestTimestamp - guessTimestamp);
+  return refined > BigInt(0) ? refined : BigInt(0);
+}
+
+/**
+ * @description Find blocks either side of a time, widening a window around an estimate
+ * @returns [low, high] with low mined at or before target and high after it;
+ *          low is 0 if target predates the chain
+ */
+async function bracketBlockAt(
+  target: bigint,
+  estimate: bigint,
+  latestNumber: bigint
+): Promise<[bigint, bigint]> {
+  let window = SEARCH_WINDOW_BLOCKS;
+  if ((await blockTimestamp(estimate)) <= target) {
+    // The latest block is after target, so the window stops growing there at the latest
+    let low = estimate;
+    let high = estimate + window < latestNumber ? estimate + window : latestNumber;
+    while ((await blockTimestamp(high)) <= target) {
+      low = high;
+      window *= BigInt(2);
+      high = high + window < latestNumber ? high + window : latestNumber;
+    }
+    return [low, high];
+  }
+
+  let high = estimate;
+  let low = estimate > window ? estimate - window : BigInt(0);
+  while (low > BigInt(0) && (await blockTimestamp(low)) > target) {
+    high = low;
+    window *= BigInt(2);
+    low = low > window ? low - window : BigInt(0);
+  }
+  return [low, high];
+}
+
+/**
+ * @description Find the last block mined at or before a time
+ * @dev estimates the block from the block time, brackets it and binary searches the
+ *      bracket, so a lookup takes about a dozen getBlock calls; results are cached
+ */
+export async function getBlockNumberAt(time: Date): Promise<bigint> {
+  const target = BigInt(Math.floor(time.getTime() / 1000));
+  const cachedBlock = BLOCK_AT_CACHE.get(target);
+  if (cachedBlock !== undefined) {
+    return cachedBlock;
+  }
+
+  const latest = await PUBLIC_CLIENT.getBlock();
+  if (latest.timestamp <= target) {
+    // Not cached: a block mined later may still fall at or before target
+    return latest.number;
+  }
+
+  const estimate = await estimateBlockAt(target, latest.number, latest.timestamp);
+  let [low, high] = await bracketBlockAt(target, estimate, latest.number);
+  while (high - low > BigInt(1)) {
+    const middle = (low + high) / BigInt(2);
+    if ((await blockTimestamp(middle)) <= target) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  if (BLOCK_AT_CACHE.size >= BLOCK_AT_CACHE_SIZE) {
+    // Maps iterate in insertion order, so this drops the oldest lookup
+    BLOCK_AT_CACHE.delete(BLOCK_AT_CACHE.keys().next().value!);
+  }
+  BLOCK_AT_CACHE.set(target, low);
+  return low;
+}
@@ -1,6 +1,13 @@
 import { createClient } from "graphql-ws";
-import { GraphQLClient } from "graphql-request";
+import { ClientError, GraphQLClient } from "graphql-request";
+import type { RequestDocument, RequestOptions, Variables } from "graphql-request";
 import dotenv from "dotenv";
+import {
+  createUpstream,
+  isTransientError,
+  loadUpstreamPolicy,
+  QueryError,
+} from "./resilience";
 
 dotenv.config();
 
@@ -34,15 +41,58 @@ console.log(`[GQL CLIENT] Initializing GraphQL client`);
 console.log(`[GQL CLIENT] Endpoint: ${GQL_ENDPOINT}`);
 console.log(`[GQL CLIENT] Has admin secret: ${!!headers["x-hasura-admin-secret"]}`);
 
-export const GQL_CLIENT = new GraphQLClient(GQL_ENDPOINT, {
+const RAW_GQL_CLIENT = new GraphQLClient(GQL_ENDPOINT, {
   headers,
 });
+
+// Timeout and retries from HASURA_TIMEOUT_MS / HASURA_RETRIES; see resilience.ts
+export const HASURA_UPSTREAM = createUpstream(
+  "hasura",
+  loadUpstreamPolicy("HASURA", { timeoutMs: 15_000, retries: 2 })
+);
+
+function classifyGqlError(error: unknown): "transient" | QueryError {
+  if (error instanceof ClientError) {
+    if (isTransientError(error, error.response.status)) {
+      return "transient";
+    }
+    const messages = error.response.errors?.map((e) => e.message).join("; ");
+    return new QueryError("hasura", messages || `HTTP ${error.response.status}`, error);
+  }
+  return isTransientError(error)
+    ? "transient"
+    : new QueryError("hasura", error instanceof Error ? error.message : "Unknown error", error);
+}
+
+/**
+ * GraphQL client for Hasura with a timeout, retries and a circuit breaker
+ * Throws UpstreamUnavailable when Hasura can't be reached and QueryError when it rejects the query
+ */
+export const GQL_CLIENT = {
+  request<T, V extends Variables = Variables>(
+    document: RequestDocument,
+    variables?: V
+  ): Promise<T> {
+    return HASURA_UPSTREAM.call(
+      (signal) =>
+        RAW_GQL_CLIENT.request<T, Variables>({
+          document,
+          variables: variables || {},
+          // graphql-request declares its own copy of the DOM AbortSignal type
+          signal: signal as unknown as RequestOptions["signal"],
+        }),
+      classifyGqlError
+    );
+  },
+};
+
 export const GQL_CLIENT_WS = createGqlWSClient();
 
 function createGqlWSClient(): ReturnType<typeof createClient> {
   const client = createClient({
     url: GQL_ENDPOINT_WS,
     lazy: true,
+    connectionParams: { headers },
     shouldRetry: () => true,
     retryAttempts: Infinity,
     retryWait: async (retries: number) => {
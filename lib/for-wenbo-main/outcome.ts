@@ -0,0 +1,81 @@
+import { parseUnits } from "viem";
+
+/**
+ * Outcome bitmasks
+ *
+ * A token_id is a bitmask of the outcome indexes the token pays on (bit i set:
+ * covers outcome i), and a resolution answer is a bitmask of the outcomes that
+ * resolved true. Both are decoded as bigints, since they can be wider than the
+ * 53 bits a Number holds exactly.
+ *
+ * An answer with several bits set is a split resolution: each true outcome pays
+ * an equal share of 1, so a token is paid for every true outcome it covers.
+ */
+
+const WAD = BigInt(10) ** BigInt(18);
+
+export interface DecodedOutcome {
+  outcomes: number[]; // Outcome indexes the token covers
+  resolved_true: number[]; // Outcome indexes the answer resolved true
+  winning: number[]; // Outcome indexes the token covers that resolved true
+  is_winning: boolean; // The token covers at least one true outcome
+  is_full: boolean; // Every outcome the token covers resolved true
+}
+
+/**
+ * Parse a bitmask given as a decimal or 0x-prefixed hex string
+ */
+export function parseBitmask(value: string): bigint {
+  const trimmed = value.trim();
+  if (!/^(0x[0-9a-f]+|\d+)$/i.test(trimmed)) {
+    throw new Error(`Invalid outcome bitmask: ${value}`);
+  }
+  return BigInt(trimmed);
+}
+
+/**
+ * List the indexes of the set bits of a bitmask, lowest first
+ */
+export function bitmaskIndexes(mask: bigint): number[] {
+  const indexes: number[] = [];
+  for (let index = 0; mask > BigInt(0); index++, mask >>= BigInt(1)) {
+    if ((mask & BigInt(1)) === BigInt(1)) {
+      indexes.push(index);
+    }
+  }
+  return indexes;
+}
+
+/**
+ * Decode which outcomes a token covers and which of them a resolution answer made true
+ */
+export function decodeOutcome(tokenId: string, answer: string): DecodedOutcome {
+  const token = parseBitmask(tokenId);
+  const resolved = parseBitmask(answer);
+  const outcomes = bitmaskIndexes(token);
+  const winning = bitmaskIndexes(token & resolved);
+
+  return {
+    outcomes,
+    resolved_true: bitmaskIndexes(resolved),
+    winning,
+    is_winning: winning.length > 0,
+    is_full: outcomes.length > 0 && winning.length === outcomes.length,
+  };
+}
+
+/**
+ * @description Payout per winning token as a wad (18 decimals, see valuation.ts)
+ * @dev payout_hmr from outcome_stats is used when the indexer has set it, since it
+ *      reflects the contract's actual split. Without it the payout follows from the
+ *      answer: the share of the true outcomes the token covers
+ */
+export function outcomePayout(outcome: DecodedOutcome, payoutHmr?: string | null): bigint {
+  if (!outcome.is_winning) {
+    return BigInt(0);
+  }
+  if (payoutHmr != null) {
+    return parseUnits(payoutHmr, 18);
+  }
+  return (BigInt(outcome.winning.length) * WAD) / BigInt(outcome.resolved_true.length);
+}
@@ -0,0 +1,128 @@
+import { gql } from "graphql-request";
+import { GQL_CLIENT_WS } from "../gql";
+import { paginate } from "./paginate";
+
+/**
+ * Streaming subscription for ledger rows after a timestamp, oldest first
+ * Hasura sends rows in batches and moves the cursor strictly past the last
+ * block_timestamp of each batch. Rows of one block share a timestamp, so when
+ * a full batch ends partway through a block the rest of that block is skipped;
+ * callers resubscribe from just before that timestamp after a full batch
+ */
+export const LEDGER_STREAM = gql`
+  subscription LedgerStream($after: timestamptz!, $batchSize: Int!) {
+    ledger_stream(
+      batch_size: $batchSize
+      cursor: { initial_value: { block_timestamp: $after }, ordering: ASC }
+    ) {
+      id
+      user_address
+      market_address
+      token_id
+      event_type
+      delta_quantity_hmr
+      delta_collateral_hmr
+      block_timestamp
+      question {
+        id
+        title
+        question_text
+      }
+    }
+  }
+`;
+
+/**
+ * Query the ledger rows of one block (one block_timestamp), for blocks too large
+ * for a single stream batch
+ */
+export const GET_LEDGER_BLOCK = gql`
+  query GetLedgerBlock($blockTimestamp: timestamptz!, $limit: Int!, $cursor: ledger_bool_exp!) {
+    ledger(
+      limit: $limit
+      where: { _and: [$cursor, { block_timestamp: { _eq: $blockTimestamp } }] }
+      order_by: [{ id: asc }]
+    ) {
+      id
+      user_address
+      market_address
+      token_id
+      event_type
+      delta_quantity_hmr
+      delta_collateral_hmr
+      block_timestamp
+      question {
+        id
+        title
+        question_text
+      }
+    }
+  }
+`;
+
+export interface LedgerStreamRow {
+  id: string;
+  user_address: string;
+  market_address: string;
+  token_id: string;
+  event_type: string;
+  delta_quantity_hmr: string;
+  delta_collateral_hmr: string;
+  block_timestamp: string;
+  question?: {
+    id: string;
+    title?: string | null;
+    question_text?: string | null;
+  } | null;
+}
+
+export interface LedgerStreamHandlers {
+  next(rows: LedgerStreamRow[]): void;
+  error(error: unknown): void;
+  complete(): void; // Also called after the returned unsubscribe function
+}
+
+/**
+ * @description Subscribe to ledger rows written after `afterTimestamp` over GQL_CLIENT_WS
+ * @dev the client reconnects on its own, resending the same initial cursor,
+ *      so batches after a reconnect can repeat rows already delivered.
+ *      A batch of `batchSize` rows may have cut a block short (see LEDGER_STREAM)
+ * @returns a function that ends the subscription
+ */
+export function subscribeLedger(
+  afterTimestamp: string,
+  handlers: LedgerStreamHandlers,
+  batchSize = 100
+): () => void {
+  return GQL_CLIENT_WS.subscribe<{ ledger_stream: LedgerStreamRow[] }>(
+    { query: LEDGER_STREAM, variables: { after: afterTimestamp, batchSize } },
+    {
+      next: (result) => {
+        if (result.errors?.length) {
+          handlers.error(new Error(result.errors.map((e) => e.message).join("; ")));
+          return;
+        }
+        const rows = result.data?.ledger_stream || [];
+        if (rows.length > 0) {
+          handlers.next(rows);
+        }
+      },
+      error: handlers.error,
+      complete: handlers.complete,
+    }
+  );
+}
+
+/**
+ * @description Page through every ledger row of the block at `blockTimestamp`
+ * @dev rows come in id order rather than write order; used when a block has more rows
+ *      than a stream batch may hold, so the stream cannot get past it
+ */
+export function paginateLedgerBlock(blockTimestamp: string) {
+  return paginate<LedgerStreamRow>({
+    query: GET_LEDGER_BLOCK,
+    field: "ledger",
+    keys: ["id"],
+    variables: { blockTimestamp },
+  });
+}
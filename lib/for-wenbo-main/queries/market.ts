@@ -1,5 +1,7 @@
 import { gql } from "graphql-request";
+import { cached } from "../cache";
 import { GQL_CLIENT } from "../gql";
+import { paginate } from "./paginate";
 
 /**
  * @description Get all unresolved markets with metrics including:
@@ -18,6 +20,15 @@ export interface OutcomeTokenMetrics {
   symbol?: string;
 }
 
+export interface OutcomePrice {
+  market_address: string;
+  token_id: string;
+  title: string;
+  symbol?: string;
+  price: number;
+  block_timestamp: string | null; // When the price was last updated
+}
+
 export interface MarketMetrics {
   market_address: string;
   question_id: string;
@@ -26,12 +37,16 @@ export interface MarketMetrics {
   outcome_tokens: OutcomeTokenMetrics[];
 }
 
+// How long results are cached; see ../cache.ts
+const MARKET_METRICS_TTL_MS = 60 * 1000;
+const OUTCOME_PRICES_TTL_MS = 30 * 1000;
+
 // GraphQL Queries
 export const GET_UNRESOLVED_MARKETS = gql`
-  query GetUnresolvedMarkets($limit: Int!, $offset: Int!) {
+  query GetUnresolvedMarkets($limit: Int!, $cursor: ledger_bool_exp!) {
     ledger(
       limit: $limit
-      offset: $offset
+      where: $cursor
       order_by: [{ market_address: asc }, { token_id: asc }, { block_timestamp: desc }]
       distinct_on: [market_address, token_id]
     ) {
@@ -57,237 +72,263 @@ export const GET_UNRESOLVED_MARKETS = gql`
   }
 `;
 
-export const GET_MARKET_LIQUIDITY = gql`
-  query GetMarketLiquidity($marketAddress: String!, $limit: Int!, $offset: Int!) {
-    ledger(
-      where: {
-        market_address: { _eq: $marketAddress }
-        event_type: { _neq: "finalise" }
-      }
-      limit: $limit
-      offset: $offset
-    ) {
-      delta_collateral_hmr
-    }
-  }
-`;
+// Aggregates requested per GetMarketAggregates request
+const AGGREGATES_PER_REQUEST = 100;
 
-export const GET_MARKET_TOKEN_SUPPLY = gql`
-  query GetMarketTokenSupply(
-    $marketAddress: String!
-    $tokenId: numeric!
-    $limit: Int!
-    $offset: Int!
-  ) {
-    ledger(
-      where: { market_address: { _eq: $marketAddress }, token_id: { _eq: $tokenId } }
-      limit: $limit
-      offset: $offset
-      order_by: [{ user_address: asc }, { block_timestamp: desc }]
-      distinct_on: [user_address]
-    ) {
-      current_quantity_hmr
-      user_address
-    }
-  }
-`;
-
-// Type definitions for GraphQL responses
-interface UnresolvedMarketsResponse {
-  ledger: Array<{
-    market_address: string;
-    token_id: string;
-    question: {
-      id: string;
-      title?: string;
-      question_resolves: Array<{
-        answer: string | null;
-      }>;
-    };
-    outcome: {
-      outcome_stats: Array<{
-        marginal_price_hmr: string;
-        block_timestamp: string;
-      }>;
-      outcome_metadata: Array<{
-        symbol?: string;
-      }>;
-    };
-  }>;
+// Row types of the GraphQL responses
+interface UnresolvedMarketEntry {
+  market_address: string;
+  token_id: string;
+  question: {
+    id: string;
+    title?: string;
+    question_resolves: Array<{
+      answer: string | null;
+    }>;
+  };
+  outcome: {
+    outcome_stats: Array<{
+      marginal_price_hmr: string;
+      block_timestamp: string;
+    }>;
+    outcome_metadata: Array<{
+      symbol?: string;
+    }>;
+  };
 }
 
-interface MarketLiquidityResponse {
-  ledger: Array<{
-    delta_collateral_hmr: string;
-  }>;
+interface LedgerAggregate {
+  aggregate: {
+    sum: {
+      delta_collateral_hmr?: string | null;
+      current_quantity_hmr?: string | null;
+    } | null;
+  } | null;
 }
 
-interface MarketTokenSupplyResponse {
-  ledger: Array<{
-    current_quantity_hmr: string;
-    user_address: string;
-  }>;
+interface MarketTokens {
+  market_address: string;
+  token_ids: string[];
 }
 
 /**
- * Calculate total liquidity for a specific market
- * Net liquidity: buys add to liquidity, sells subtract from liquidity
+ * Build one request summing liquidity and token supply for a batch of markets
+ * Each market and token gets an aliased ledger_aggregate field, so a batch costs
+ * a single round trip instead of paging through the raw ledger per market and token
+ * - l<i>: net collateral paid in by traders (excluding finalise)
+ * - s<i>_<j>: current quantity summed over the latest row of each holder
  */
-async function calculateMarketLiquidity(
-  marketAddress: string
-): Promise<number> {
-  let totalLiquidity = 0;
-  let offset = 0;
-  let hasMore = true;
-  const pageSize = 1000;
-
-  while (hasMore) {
-    const result = await GQL_CLIENT.request<MarketLiquidityResponse>(
-      GET_MARKET_LIQUIDITY,
-      {
-        marketAddress,
-        limit: pageSize,
-        offset,
-      }
-    );
+function buildMarketAggregatesQuery(markets: MarketTokens[]): {
+  query: string;
+  variables: Record<string, string>;
+} {
+  const declarations: string[] = [];
+  const fields: string[] = [];
+  const variables: Record<string, string> = {};
+
+  markets.forEach((market, i) => {
+    declarations.push(`$m${i}: String!`);
+    variables[`m${i}`] = market.market_address;
+    fields.push(`
+    l${i}: ledger_aggregate(
+      where: { market_address: { _eq: $m${i} }, event_type: { _neq: "finalise" } }
+    ) {
+      aggregate { sum { delta_collateral_hmr } }
+    }`);
+
+    market.token_ids.forEach((tokenId, j) => {
+      declarations.push(`$t${i}_${j}: numeric!`);
+      variables[`t${i}_${j}`] = tokenId;
+      fields.push(`
+    s${i}_${j}: ledger_aggregate(
+      where: { market_address: { _eq: $m${i} }, token_id: { _eq: $t${i}_${j} } }
+      order_by: [{ user_address: asc }, { block_timestamp: desc }]
+      distinct_on: [user_address]
+    ) {
+      aggregate { sum { current_quantity_hmr } }
+    }`);
+    });
+  });
+
+  return {
+    query: `query GetMarketAggregates(${declarations.join(", ")}) {${fields.join("")}\n}`,
+    variables,
+  };
+}
 
-    // Sum all collateral deltas from market's perspective
-    // If delta_collateral_hmr is from user's perspective, invert the sign
-    // User receives collateral (sells) = market loses collateral = negative for market
-    // User pays collateral (buys) = market gains collateral = positive for market
-    for (const entry of result.ledger) {
-      totalLiquidity -= parseFloat(entry.delta_collateral_hmr || "0");
+/**
+ * Fetch liquidity per market and supply per outcome token in batched aggregate requests
+ * @returns liquidity by market address, and supply by "market:token"
+ */
+async function fetchMarketAggregates(markets: MarketTokens[]): Promise<{
+  liquidity: Map<string, number>;
+  supply: Map<string, number>;
+}> {
+  const liquidity = new Map<string, number>();
+  const supply = new Map<string, number>();
+
+  // Group markets so each request stays under AGGREGATES_PER_REQUEST fields
+  const batches: MarketTokens[][] = [];
+  let batch: MarketTokens[] = [];
+  let batchSize = 0;
+  for (const market of markets) {
+    const size = 1 + market.token_ids.length;
+    if (batch.length > 0 && batchSize + size > AGGREGATES_PER_REQUEST) {
+      batches.push(batch);
+      batch = [];
+      batchSize = 0;
     }
+    batch.push(market);
+    batchSize += size;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
 
-    offset += pageSize;
+  for (const markets of batches) {
+    const { query, variables } = buildMarketAggregatesQuery(markets);
+    const result = await GQL_CLIENT.request<Record<string, LedgerAggregate>>(query, variables);
 
-    if (result.ledger.length < pageSize) {
-      hasMore = false;
-    }
+    markets.forEach((market, i) => {
+      // Collateral deltas are from the trader's perspective: buys are negative
+      // for the trader and add to the market's liquidity
+      const collateral = result[`l${i}`]?.aggregate?.sum?.delta_collateral_hmr;
+      liquidity.set(market.market_address, -parseFloat(collateral || "0"));
+
+      market.token_ids.forEach((tokenId, j) => {
+        const quantity = result[`s${i}_${j}`]?.aggregate?.sum?.current_quantity_hmr;
+        supply.set(`${market.market_address}:${tokenId}`, parseFloat(quantity || "0"));
+      });
+    });
   }
 
-  return totalLiquidity;
+  return { liquidity, supply };
 }
 
 /**
- * Calculate total supply for a specific outcome token
- * Sums current_quantity_hmr from latest position of each user
+ * Page through the latest ledger row of every market/token combination
  */
-async function calculateTokenSupply(
-  marketAddress: string,
-  tokenId: number
-): Promise<number> {
-  let totalSupply = 0;
-  let offset = 0;
-  let hasMore = true;
-  const pageSize = 1000;
-
-  while (hasMore) {
-    const result = await GQL_CLIENT.request<MarketTokenSupplyResponse>(
-      GET_MARKET_TOKEN_SUPPLY,
-      {
-        marketAddress,
-        tokenId,
-        limit: pageSize,
-        offset,
-      }
-    );
-
-    // Sum current quantities across all users
-    for (const entry of result.ledger) {
-      totalSupply += parseFloat(entry.current_quantity_hmr || "0");
-    }
-
-    offset += pageSize;
-
-    if (result.ledger.length < pageSize) {
-      hasMore = false;
-    }
-  }
-
-  return totalSupply;
+function paginateMarketTokens() {
+  return paginate<UnresolvedMarketEntry>({
+    query: GET_UNRESOLVED_MARKETS,
+    field: "ledger",
+    keys: ["market_address", "token_id"],
+  });
 }
 
 /**
  * Main function to get all unresolved markets with their metrics
  * Returns market data with liquidity, outcome token prices, and total supply
+ * Cached for a minute, so the market endpoints and slash commands share one fetch
  */
 export async function getMarketsWithMetrics(): Promise<MarketMetrics[]> {
-  const marketMap = new Map<string, MarketMetrics>();
-  let offset = 0;
-  let hasMore = true;
-  const pageSize = 1000;
-
-  while (hasMore) {
-    const result = await GQL_CLIENT.request<UnresolvedMarketsResponse>(
-      GET_UNRESOLVED_MARKETS,
-      {
-        limit: pageSize,
-        offset,
-      }
-    );
+  return cached("market-metrics", [], MARKET_METRICS_TTL_MS, fetchMarketsWithMetrics);
+}
+
+/**
+ * @dev liquidity and supply come from aggregate queries batched over all markets,
+ *      so the cost is a few requests rather than one ledger scan per market and token
+ */
+async function fetchMarketsWithMetrics(): Promise<MarketMetrics[]> {
+  const entries: UnresolvedMarketEntry[] = [];
+  const marketTokens = new Map<string, MarketTokens>();
 
-    // Process each ledger entry (one per market/token combination)
-    for (const entry of result.ledger) {
+  for await (const page of paginateMarketTokens()) {
+    // One entry per market/token combination
+    for (const entry of page) {
       // Skip if market is resolved (has an answer)
       const isResolved = entry.question?.question_resolves?.[0]?.answer != null;
       if (isResolved) {
         continue;
       }
 
-      const marketAddress = entry.market_address;
+      entries.push(entry);
+      const market = marketTokens.get(entry.market_address) || {
+        market_address: entry.market_address,
+        token_ids: [],
+      };
+      market.token_ids.push(entry.token_id);
+      marketTokens.set(entry.market_address, market);
+    }
+  }
 
-      // Get or create market entry
-      if (!marketMap.has(marketAddress)) {
-        // Calculate liquidity once per market
-        const totalLiquidity = await calculateMarketLiquidity(marketAddress);
-
-        marketMap.set(marketAddress, {
-          market_address: marketAddress,
-          question_id: entry.question.id,
-          title: entry.question.title || `${marketAddress.slice(0, 6)}...${marketAddress.slice(-4)}`,
-          total_liquidity: totalLiquidity,
-          outcome_tokens: [],
-        });
-      }
+  const { liquidity, supply } = await fetchMarketAggregates(Array.from(marketTokens.values()));
 
-      const market = marketMap.get(marketAddress)!;
+  const marketMap = new Map<string, MarketMetrics>();
+  for (const entry of entries) {
+    const marketAddress = entry.market_address;
 
-      // Extract price from outcome_stats
-      const price = parseFloat(
-        entry.outcome?.outcome_stats[0]?.marginal_price_hmr || "0"
-      );
+    // Get or create market entry
+    if (!marketMap.has(marketAddress)) {
+      marketMap.set(marketAddress, {
+        market_address: marketAddress,
+        question_id: entry.question.id,
+        title: entry.question.title || `${marketAddress.slice(0, 6)}...${marketAddress.slice(-4)}`,
+        total_liquidity: liquidity.get(marketAddress) || 0,
+        outcome_tokens: [],
+      });
+    }
 
-      // Extract symbol from outcome_metadata (array relationship)
-      const symbol = entry.outcome?.outcome_metadata?.[0]?.symbol;
+    const market = marketMap.get(marketAddress)!;
 
-      // Calculate total supply for this token
-      const totalSupply = await calculateTokenSupply(
-        marketAddress,
-        parseInt(entry.token_id)
-      );
+    // Extract price from outcome_stats
+    const price = parseFloat(
+      entry.outcome?.outcome_stats[0]?.marginal_price_hmr || "0"
+    );
 
-      // Calculate payoff: (total_liquidity / total_supply) / price
-      const payoff = totalSupply > 0 && price > 0
-        ? (market.total_liquidity / totalSupply) / price
-        : 0;
+    // Extract symbol from outcome_metadata (array relationship)
+    const symbol = entry.outcome?.outcome_metadata?.[0]?.symbol;
 
-      market.outcome_tokens.push({
-        token_id: entry.token_id,
-        price,
-        total_supply: totalSupply,
-        payoff,
-        market_address: marketAddress,
-        symbol,
-      });
-    }
+    const totalSupply = supply.get(`${marketAddress}:${entry.token_id}`) || 0;
 
-    offset += pageSize;
+    // Calculate payoff: (total_liquidity / total_supply) / price
+    const payoff = totalSupply > 0 && price > 0
+      ? (market.total_liquidity / totalSupply) / price
+      : 0;
 
-    if (result.ledger.length < pageSize) {
-      hasMore = false;
-    }
+    market.outcome_tokens.push({
+      token_id: entry.token_id,
+      price,
+      total_supply: totalSupply,
+      payoff,
+      market_address: marketAddress,
+      symbol,
+    });
   }
 
   return Array.from(marketMap.values());
 }
+
+/**
+ * Get the latest price of every outcome token in unresolved markets
+ * Unlike getMarketsWithMetrics, this skips liquidity and supply so it is cheap to poll
+ */
+export async function getOutcomePrices(): Promise<OutcomePrice[]> {
+  return cached("outcome-prices", [], OUTCOME_PRICES_TTL_MS, fetchOutcomePrices);
+}
+
+async function fetchOutcomePrices(): Promise<OutcomePrice[]> {
+  const prices: OutcomePrice[] = [];
+
+  for await (const entries of paginateMarketTokens()) {
+    for (const entry of entries) {
+      if (entry.question?.question_resolves?.[0]?.answer != null) {
+        continue;
+      }
+
+      const marketAddress = entry.market_address;
+      const stats = entry.outcome?.outcome_stats[0];
+
+      prices.push({
+        market_address: marketAddress,
+        token_id: entry.token_id,
+        title: entry.question.title || `${marketAddress.slice(0, 6)}...${marketAddress.slice(-4)}`,
+        symbol: entry.outcome?.outcome_metadata?.[0]?.symbol,
+        price: parseFloat(stats?.marginal_price_hmr || "0"),
+        block_timestamp: stats?.block_timestamp || null,
+      });
+    }
+  }
+
+  return prices;
+}
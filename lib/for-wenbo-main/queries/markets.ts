@@ -1,5 +1,6 @@
 import { gql } from "graphql-request";
 import { GQL_CLIENT } from "../gql";
+import { paginate } from "./paginate";
 
 /**
  * Market information from the GraphQL API
@@ -11,16 +12,31 @@ export interface Market {
   question_text?: string;
 }
 
+/**
+ * Row of the market queries below
+ */
+interface MarketEntry {
+  market_address: string;
+  block_timestamp: string;
+  question?: {
+    question_text?: string;
+    created_at?: string;
+  } | null;
+}
+
+// Markets checked per GET_MARKETS_ACTIVE_BEFORE request
+const ADDRESS_BATCH_SIZE = 1000;
+
 /**
  * Query to get all distinct markets, ordered by creation time (newest first)
  * This queries the ledger table to get distinct market addresses
  * Note: distinct_on requires the distinct column to be first in order_by
  */
 export const GET_ALL_MARKETS = gql`
-  query GetAllMarkets($limit: Int!, $offset: Int!) {
+  query GetAllMarkets($limit: Int!, $cursor: ledger_bool_exp!) {
     ledger(
       limit: $limit
-      offset: $offset
+      where: $cursor
       order_by: [{ market_address: asc }, { block_timestamp: desc }]
       distinct_on: [market_address]
     ) {
@@ -41,33 +57,13 @@ export const GET_ALL_MARKETS = gql`
 export async function getAllMarkets(): Promise<Market[]> {
   const markets: Market[] = [];
   const seenMarkets = new Set<string>();
-  let offset = 0;
-  let hasMore = true;
-  const pageSize = 1000;
-
-  while (hasMore) {
-    try {
-      const result = await GQL_CLIENT.request<{
-        ledger: Array<{
-          market_address: string;
-          block_timestamp: string;
-          question?: {
-            question_text?: string;
-            created_at?: string;
-          } | null;
-        }>;
-      }>(GET_ALL_MARKETS, {
-        limit: pageSize,
-        offset,
-      });
-
-      const entries = result.ledger || [];
-
-      if (entries.length === 0) {
-        hasMore = false;
-        break;
-      }
 
+  try {
+    for await (const entries of paginate<MarketEntry>({
+      query: GET_ALL_MARKETS,
+      field: "ledger",
+      keys: ["market_address"],
+    })) {
       for (const entry of entries) {
         // Only add markets we haven't seen yet (distinct_on should handle this, but double-check)
         if (!seenMarkets.has(entry.market_address.toLowerCase())) {
@@ -80,31 +76,148 @@ export async function getAllMarkets(): Promise<Market[]> {
           });
         }
       }
+    }
+  } catch (error) {
+    console.error("Error fetching markets:", error);
+    throw error;
+  }
 
-      offset += pageSize;
+  return markets;
+}
+
+/**
+ * Query the latest ledger timestamp, used as the upper bound of an incremental scan
+ */
+export const GET_LATEST_LEDGER_TIMESTAMP = gql`
+  query GetLatestLedgerTimestamp {
+    ledger(limit: 1, order_by: [{ block_timestamp: desc }]) {
+      block_timestamp
+    }
+  }
+`;
 
-      if (entries.length < pageSize) {
-        hasMore = false;
+/**
+ * Query the first ledger row in a time range for every market active in it
+ * Only touches rows inside the range, so cost follows activity rather than market count
+ */
+export const GET_MARKETS_ACTIVE_BETWEEN = gql`
+  query GetMarketsActiveBetween(
+    $after: timestamptz!
+    $until: timestamptz!
+    $limit: Int!
+    $cursor: ledger_bool_exp!
+  ) {
+    ledger(
+      limit: $limit
+      where: { _and: [$cursor, { block_timestamp: { _gt: $after, _lte: $until } }] }
+      order_by: [{ market_address: asc }, { block_timestamp: asc }]
+      distinct_on: [market_address]
+    ) {
+      market_address
+      block_timestamp
+      question {
+        question_text
+        created_at
       }
-    } catch (error) {
-      console.error("Error fetching markets:", error);
-      throw error;
     }
   }
+`;
 
-  return markets;
+/**
+ * Query which of the given markets already had ledger rows at or before a timestamp
+ */
+export const GET_MARKETS_ACTIVE_BEFORE = gql`
+  query GetMarketsActiveBefore($marketAddresses: [String!]!, $before: timestamptz!) {
+    ledger(
+      where: {
+        market_address: { _in: $marketAddresses }
+        block_timestamp: { _lte: $before }
+      }
+      order_by: [{ market_address: asc }]
+      distinct_on: [market_address]
+    ) {
+      market_address
+    }
+  }
+`;
+
+/**
+ * Get the timestamp of the most recent ledger row
+ * @returns the timestamp, or null if the ledger is empty
+ */
+export async function getLatestLedgerTimestamp(): Promise<string | null> {
+  const result = await GQL_CLIENT.request<{
+    ledger: Array<{ block_timestamp: string }>;
+  }>(GET_LATEST_LEDGER_TIMESTAMP);
+  return result.ledger?.[0]?.block_timestamp || null;
 }
 
 /**
- * Get markets created after a specific timestamp
- * @param afterTimestamp - Only return markets created after this timestamp
+ * Get markets whose first ledger row falls in (afterTimestamp, untilTimestamp]
+ * Filtering happens in the database: only markets active in the range are
+ * fetched, and those with earlier rows are dropped by a second query
+ * @param afterTimestamp - Exclusive lower bound (the previous cursor)
+ * @param untilTimestamp - Inclusive upper bound, defaults to the latest ledger row
  */
 export async function getNewMarkets(
-  afterTimestamp: string
+  afterTimestamp: string,
+  untilTimestamp?: string
 ): Promise<Market[]> {
-  const allMarkets = await getAllMarkets();
-  return allMarkets.filter((market) => {
-    const marketTime = market.block_timestamp || market.created_at;
-    return marketTime && marketTime > afterTimestamp;
-  });
+  const until = untilTimestamp || (await getLatestLedgerTimestamp());
+  if (!until) {
+    return [];
+  }
+
+  const candidates: Market[] = [];
+
+  for await (const entries of paginate<MarketEntry>({
+    query: GET_MARKETS_ACTIVE_BETWEEN,
+    field: "ledger",
+    keys: ["market_address"],
+    variables: { after: afterTimestamp, until },
+  })) {
+    for (const entry of entries) {
+      candidates.push({
+        market_address: entry.market_address,
+        block_timestamp: entry.block_timestamp,
+        created_at: entry.question?.created_at,
+        question_text: entry.question?.question_text,
+      });
+    }
+  }
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  // Markets with rows at or before the cursor were already live
+  const existing = await getMarketsLiveBefore(
+    candidates.map((m) => m.market_address),
+    afterTimestamp
+  );
+
+  return candidates.filter((m) => !existing.has(m.market_address.toLowerCase()));
+}
+
+/**
+ * Get which of the given markets already had ledger rows at or before a timestamp
+ * @returns the lowercased addresses of markets that were already live
+ */
+export async function getMarketsLiveBefore(
+  marketAddresses: string[],
+  beforeTimestamp: string
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < marketAddresses.length; i += ADDRESS_BATCH_SIZE) {
+    const result = await GQL_CLIENT.request<{
+      ledger: Array<{ market_address: string }>;
+    }>(GET_MARKETS_ACTIVE_BEFORE, {
+      marketAddresses: marketAddresses.slice(i, i + ADDRESS_BATCH_SIZE),
+      before: beforeTimestamp,
+    });
+    for (const entry of result.ledger || []) {
+      existing.add(entry.market_address.toLowerCase());
+    }
+  }
+  return existing;
 }
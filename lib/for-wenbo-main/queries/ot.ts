@@ -1,9 +1,6 @@
 import { gql } from "graphql-request";
-import { GQL_CLIENT } from "../gql";
-import type {
-  GetTradesQuery,
-  GetTradesQueryVariables,
-} from "../generated/types";
+import type { GetTradesQuery } from "../generated/types";
+import { paginate } from "./paginate";
 import { getOrCreate } from "./utils";
 
 /**
@@ -23,34 +20,18 @@ export async function buildOTLeaderboard(
     userToMarketToTokenToStats: new Map(),
   };
 
-  let offset = 0;
   let totalProcessed = 0;
-  let hasMore = true;
-
-  while (hasMore) {
-    const result = await GQL_CLIENT.request<
-      GetTradesQuery,
-      GetTradesQueryVariables
-    >(GET_TRADES, { limit: pageSize, offset });
-
-    const entries = result.ledger;
-
-    if (entries.length === 0) {
-      hasMore = false;
-      break;
-    }
 
+  for await (const entries of paginate<LedgerEntry>({
+    query: GET_TRADES,
+    field: "ledger",
+    keys: ["id"],
+    pageSize,
+  })) {
     processBatch(leaderboard, entries);
 
     totalProcessed += entries.length;
-    offset += pageSize;
-
     console.log(`Processed ${totalProcessed} ledger entries...`);
-
-    // If we got fewer entries than pageSize, we're done
-    if (entries.length < pageSize) {
-      hasMore = false;
-    }
   }
 
   console.log(`Finished processing ${totalProcessed} total ledger entries`);
@@ -58,13 +39,13 @@ export async function buildOTLeaderboard(
 }
 
 export const GET_TRADES = gql`
-  query GetTrades($limit: Int!, $offset: Int!) {
+  query GetTrades($limit: Int!, $cursor: ledger_bool_exp!) {
     ledger(
       limit: $limit
-      offset: $offset
       order_by: { id: asc }
-      where: { event_type: { _neq: "finalise" } }
+      where: { _and: [$cursor, { event_type: { _neq: "finalise" } }] }
     ) {
+      id
       user_address
       market_address
       token_id
@@ -0,0 +1,67 @@
+import { GQL_CLIENT } from "../gql";
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+export interface KeysetPaginationOptions<TRow> {
+  query: string; // Must take $limit and a $cursor bool_exp included in its where
+  field: string; // Root field of the response holding the rows, e.g. "ledger"
+  keys: Array<keyof TRow & string>; // Columns the query orders by ascending, first to last
+  variables?: Record<string, unknown>;
+  pageSize?: number;
+}
+
+/**
+ * @description Build the filter selecting rows after `row` in the order of `keys`
+ * @dev (a, b) > (x, y) becomes a > x OR (a = x AND b > y)
+ */
+function keysetAfter<TRow>(
+  keys: Array<keyof TRow & string>,
+  row: TRow
+): Record<string, unknown> {
+  return {
+    _or: keys.map((key, index) => {
+      const condition: Record<string, unknown> = {};
+      for (const previous of keys.slice(0, index)) {
+        condition[previous] = { _eq: row[previous] };
+      }
+      condition[key] = { _gt: row[key] };
+      return condition;
+    }),
+  };
+}
+
+/**
+ * @description Page through a query by cursor instead of offset, yielding one page of rows at a time
+ * @dev each page asks for rows after the last key seen, so rows inserted while paging
+ *      cannot shift later pages, and deep pages cost the same as the first.
+ *      With distinct_on, the keys must be the distinct columns: the cursor filter
+ *      applies before DISTINCT ON, which keeps each group whole.
+ * @example
+ *   for await (const entries of paginate<Row>({ query, field: "ledger", keys: ["id"] })) { ... }
+ */
+export async function* paginate<TRow>(
+  options: KeysetPaginationOptions<TRow>
+): AsyncGenerator<TRow[]> {
+  const { query, field, keys, variables = {}, pageSize = DEFAULT_PAGE_SIZE } = options;
+  let cursor: Record<string, unknown> = {};
+
+  while (true) {
+    const result = await GQL_CLIENT.request<Record<string, TRow[] | undefined>>(query, {
+      ...variables,
+      limit: pageSize,
+      cursor,
+    });
+
+    const rows = result[field] || [];
+    if (rows.length > 0) {
+      yield rows;
+    }
+
+    // A short page is the last one
+    if (rows.length < pageSize) {
+      return;
+    }
+
+    cursor = keysetAfter(keys, rows[rows.length - 1]);
+  }
+}
@@ -1,13 +1,21 @@
 import { gql } from "graphql-request";
 import {
   GetLastPositionQuery,
-  GetLastPositionQueryVariables,
   GetMarketClaimsQuery,
-  GetMarketClaimsQueryVariables,
 } from "../generated/types";
-import { formatUnits } from "viem";
-import { GQL_CLIENT } from "../gql";
 import { COLLATERAL_ADDRESS, ERC20_ABI, PUBLIC_CLIENT } from "../evm";
+import {
+  addClaims,
+  addPositionValue,
+  emptyValuation,
+  MarketClaims,
+  PortfolioValuation,
+  setCash,
+  toAmount,
+  usdcToWad,
+  valuePosition,
+} from "../valuation";
+import { paginate } from "./paginate";
 
 /**
  * @description builds leaderboard data for portfolio
@@ -19,72 +27,32 @@ import { COLLATERAL_ADDRESS, ERC20_ABI, PUBLIC_CLIENT } from "../evm";
 export async function buildPortfolioLeaderboard(
   pageSize: number = 1000
 ): Promise<PortfolioLeaderboard> {
-  const leaderboard: PortfolioLeaderboard = {
-    userToStats: new Map(),
-  };
+  const valuations = new Map<string, PortfolioValuation>();
   const claims: MarketClaims = {};
 
-  let offset = 0;
-  let hasMore = true;
-
-  while (hasMore) {
-    const result = await GQL_CLIENT.request<
-      GetMarketClaimsQuery,
-      GetMarketClaimsQueryVariables
-    >(GET_MARKET_CLAIMS, { limit: pageSize, offset });
-
-    const entries = result.market_claim;
-
-    if (entries.length === 0) {
-      hasMore = false;
-      break;
-    }
-
-    processClaims(claims, entries);
-
-    offset += pageSize;
-
-    if (entries.length < pageSize) {
-      hasMore = false;
-    }
+  for await (const entries of paginate<ClaimEntry>({
+    query: GET_MARKET_CLAIMS,
+    field: "market_claim",
+    keys: ["id"],
+    pageSize,
+  })) {
+    addClaims(claims, entries);
   }
 
   console.log(`${Object.keys(claims).length} keys in claims`);
 
-  offset = 0;
-  hasMore = true;
-
-  while (hasMore) {
-    const result = await GQL_CLIENT.request<
-      GetLastPositionQuery,
-      GetLastPositionQueryVariables
-    >(GET_LAST_POSITION, { limit: pageSize, offset });
-
-    const entries = result.ledger;
-
-    if (entries.length === 0) {
-      hasMore = false;
-      break;
-    }
-
-    for (const entry of entries) {
-      if (!leaderboard.userToStats.has(entry.user_address)) {
-        leaderboard.userToStats.set(entry.user_address, ZERO_PORTFOLIO);
-      }
-    }
-
-    processBatch(leaderboard, entries, claims);
-
-    offset += pageSize;
-
-    if (entries.length < pageSize) {
-      hasMore = false;
-    }
+  for await (const entries of paginate<LastPositionEntry>({
+    query: GET_LAST_POSITION,
+    field: "ledger",
+    keys: ["user_address", "market_address", "token_id"],
+    pageSize,
+  })) {
+    processBatch(valuations, entries, claims);
   }
 
-  console.log(`${leaderboard.userToStats.size} portfolio entries`);
+  console.log(`${valuations.size} portfolio entries`);
 
-  const userAddresses = Array.from(leaderboard.userToStats.keys());
+  const userAddresses = Array.from(valuations.keys());
   const BATCH_SIZE = 500;
 
   for (let i = 0; i < userAddresses.length; i += BATCH_SIZE) {
@@ -101,14 +69,9 @@ export async function buildPortfolioLeaderboard(
 
     results.forEach((result, index) => {
       const userAddress = batch[index];
-      const currentPortfolio = leaderboard.userToStats.get(userAddress) || 0;
 
       if (result.status === "success") {
-        const usdcBalance = Number(formatUnits(result.result as bigint, 6));
-        leaderboard.userToStats.set(
-          userAddress,
-          currentPortfolio + usdcBalance
-        );
+        setCash(valuations.get(userAddress)!, usdcToWad(result.result as bigint));
       } else {
         console.warn(
           `Failed to fetch USDC balance for ${userAddress}:`,
@@ -119,14 +82,21 @@ export async function buildPortfolioLeaderboard(
   }
   console.log(`${userAddresses.length} cash balances`);
 
+  const leaderboard: PortfolioLeaderboard = {
+    userToStats: new Map(),
+  };
+  for (const [userAddress, valuation] of valuations) {
+    leaderboard.userToStats.set(userAddress, toAmount(valuation.total));
+  }
+
   return leaderboard;
 }
 
 export const GET_LAST_POSITION = gql`
-  query GetLastPosition($limit: Int!, $offset: Int!) {
+  query GetLastPosition($limit: Int!, $cursor: ledger_bool_exp!) {
     ledger(
       limit: $limit
-      offset: $offset
+      where: $cursor
       order_by: [
         { user_address: asc }
         { market_address: asc }
@@ -160,11 +130,11 @@ export const GET_LAST_POSITION = gql`
 `;
 
 export const GET_MARKET_CLAIMS = gql`
-  query GetMarketClaims($limit: Int!, $offset: Int!) {
+  query GetMarketClaims($limit: Int!, $cursor: market_claim_bool_exp!) {
     market_claim(
       limit: $limit
-      offset: $offset
-      where: { quantity: { _gt: "0" } }
+      order_by: { id: asc }
+      where: { _and: [$cursor, { quantity: { _gt: "0" } }] }
     ) {
       id
       user_address
@@ -180,64 +150,24 @@ export const GET_MARKET_CLAIMS = gql`
 type LastPositionEntry = GetLastPositionQuery["ledger"][number];
 type ClaimEntry = GetMarketClaimsQuery["market_claim"][number];
 export type Portfolio = number;
-const ZERO_PORTFOLIO = 0;
 
 export interface PortfolioLeaderboard {
   // portfolio per user
   userToStats: Map<string, Portfolio>;
 }
 
-export type MarketClaims = Record<string, bigint>;
-
-function buildClaimKey(user: string, market: string, tokenId: string) {
-  return `${user}-${market}-${tokenId}`;
-}
-
-function processClaims(claims: MarketClaims, entries: ClaimEntry[]) {
-  for (const entry of entries) {
-    const { user_address, market_address, token_id, quantity } = entry;
-    const key = buildClaimKey(user_address, market_address, token_id);
-    const claimWei = claims?.[key] || BigInt(0);
-    claims[key] = claimWei + BigInt(quantity);
-  }
-}
-
 function processBatch(
-  leaderboard: PortfolioLeaderboard,
+  valuations: Map<string, PortfolioValuation>,
   entries: LastPositionEntry[],
   claims: MarketClaims
 ) {
   for (const entry of entries) {
-    const { user_address, market_address, token_id, question } = entry;
-    const portfolio =
-      leaderboard.userToStats.get(user_address) || ZERO_PORTFOLIO;
-
-    if (question.question_resolves?.[0]?.answer != null) {
-      if (
-        (Number(token_id) &
-          Number(entry.question.question_resolves[0].answer)) !==
-        0
-      ) {
-        const key = buildClaimKey(user_address, market_address, token_id);
-        const fullClaimWei = -BigInt(entry.delta_quantity); // note: delta is negative (user gives up quantity)
-        const claimedWei = claims?.[key] || BigInt(0);
-        const remainingWei = fullClaimWei - claimedWei;
-        if (remainingWei > BigInt(0)) {
-          const payoutPerOt = parseFloat(
-            entry.outcome?.outcome_stats[0].payout_hmr || "0"
-          );
-          const remaining = Number(formatUnits(remainingWei, 18));
-          const value = payoutPerOt * remaining;
-          leaderboard.userToStats.set(user_address, portfolio + value);
-        }
-      }
-    } else {
-      const price = parseFloat(
-        entry.outcome?.outcome_stats[0].marginal_price_hmr || "0"
-      );
-      const quantity = parseFloat(entry?.current_quantity_hmr || "0");
-      const value = price * quantity;
-      leaderboard.userToStats.set(user_address, portfolio + value);
+    const userAddress = entry.user_address;
+    let valuation = valuations.get(userAddress);
+    if (!valuation) {
+      valuation = emptyValuation();
+      valuations.set(userAddress, valuation);
     }
+    addPositionValue(valuation, valuePosition(userAddress, entry, claims));
   }
 }
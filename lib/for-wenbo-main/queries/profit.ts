@@ -1,9 +1,6 @@
 import { gql } from "graphql-request";
-import { GQL_CLIENT } from "../gql";
-import type {
-  GetLastPositionPnlQuery,
-  GetLastPositionPnlQueryVariables,
-} from "../generated/types";
+import type { GetLastPositionPnlQuery } from "../generated/types";
+import { paginate } from "./paginate";
 import { getOrCreate } from "./utils";
 
 /**
@@ -23,33 +20,18 @@ export async function buildProfitLeaderboard(pageSize: number = 1000) {
     userToMarketToTokenToStats: new Map(),
   };
 
-  let offset = 0;
   let totalProcessed = 0;
-  let hasMore = true;
-
-  while (true) {
-    const result = await GQL_CLIENT.request<
-      GetLastPositionPnlQuery,
-      GetLastPositionPnlQueryVariables
-    >(GET_LAST_POSITION_PNL, { limit: pageSize, offset });
-
-    const entries = result.ledger;
-
-    if (entries.length === 0) {
-      hasMore = false;
-      break;
-    }
 
+  for await (const entries of paginate<PnlLedgerEntry>({
+    query: GET_LAST_POSITION_PNL,
+    field: "ledger",
+    keys: ["user_address", "market_address", "token_id"],
+    pageSize,
+  })) {
     processBatch(leaderboard, entries);
 
     totalProcessed += entries.length;
-    offset += pageSize;
-
     console.log(`Processed ${totalProcessed} position...`);
-
-    if (entries.length < pageSize) {
-      hasMore = false;
-    }
   }
 
   console.log(`Finished processing ${totalProcessed} total ledger entries`);
@@ -57,10 +39,10 @@ export async function buildProfitLeaderboard(pageSize: number = 1000) {
 }
 
 export const GET_LAST_POSITION_PNL = gql`
-  query GetLastPositionPnl($limit: Int!, $offset: Int!) {
+  query GetLastPositionPnl($limit: Int!, $cursor: ledger_bool_exp!) {
     ledger(
       limit: $limit
-      offset: $offset
+      where: $cursor
       order_by: [
         { user_address: asc }
         { market_address: asc }
@@ -1,13 +1,50 @@
 import { gql } from "graphql-request";
 import {
   GetLastPositionQuery,
-  GetLastPositionQueryVariables,
   GetMarketClaimsQuery,
-  GetMarketClaimsQueryVariables,
 } from "../generated/types";
 import { formatUnits } from "viem";
-import { GQL_CLIENT } from "../gql";
-import { COLLATERAL_ADDRESS, ERC20_ABI, PUBLIC_CLIENT } from "../evm";
+import { cached } from "../cache";
+import { COLLATERAL_ADDRESS, ERC20_ABI, getBlockNumberAt, PUBLIC_CLIENT } from "../evm";
+import {
+  addClaims,
+  addPositionValue,
+  buildClaimKey,
+  emptyValuation,
+  heldAtResolution,
+  MarketClaims,
+  markPrice,
+  setCash,
+  positionPnl,
+  toAmount,
+  usdcToWad,
+  valuePosition,
+} from "../valuation";
+import { bitmaskIndexes, decodeOutcome, outcomePayout, parseBitmask } from "../outcome";
+import { paginate } from "./paginate";
+
+// How long results are cached per wallet; see ../cache.ts
+const WALLET_TTL_MS = 30 * 1000;
+
+// Results as of a past time only change if the indexer backfills, so they are kept longer
+const AS_OF_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Options shared by the wallet queries
+ */
+export interface WalletQueryOptions {
+  asOf?: Date; // Value the wallet as it was at this time instead of now
+}
+
+/**
+ * Cache key parts and TTL for a wallet query
+ * Live results keep the key [wallet], so invalidateCache(type, [wallet]) still drops them
+ */
+function walletCacheKey(walletAddress: string, asOf?: Date): [unknown[], number] {
+  return asOf
+    ? [[walletAddress.toLowerCase(), asOf.toISOString()], AS_OF_TTL_MS]
+    : [[walletAddress.toLowerCase()], WALLET_TTL_MS];
+}
 
 /**
  * @description Get portfolio value for a specific wallet address
@@ -16,218 +53,367 @@ import { COLLATERAL_ADDRESS, ERC20_ABI, PUBLIC_CLIENT } from "../evm";
  *      2. Cash Holdings (from BSC chain)
  */
 export async function getWalletPortfolio(
-  walletAddress: string
+  walletAddress: string,
+  options: WalletQueryOptions = {}
 ): Promise<number> {
-  const claims: MarketClaims = {};
-  let portfolio = 0;
-
-  // Fetch all market claims for this wallet (filtered at database level)
-  let offset = 0;
-  let hasMore = true;
-  const pageSize = 1000;
-  const normalizedWalletAddress = walletAddress.toLowerCase();
-
-  while (hasMore) {
-    try {
-      const result = await GQL_CLIENT.request<{
-        market_claim: ClaimEntry[];
-      }>(GET_MARKET_CLAIMS_BY_WALLET, {
-        limit: pageSize,
-        offset,
-        userAddress: normalizedWalletAddress,
-      });
-
-      const entries = result.market_claim || [];
+  const breakdown = await getWalletPortfolioBreakdown(walletAddress, options);
+  return breakdown.total;
+}
 
-      if (entries.length === 0) {
-        hasMore = false;
-        break;
-      }
+/**
+ * @description Get the components of the portfolio value for a specific wallet address
+ * @dev total = positions_value + unclaimed_winnings + cash (cash counts as 0 if unavailable).
+ *      With asOf, positions, prices, resolutions and claims are those recorded up to that
+ *      time, and cash is the balance at the last block before it
+ */
+export async function getWalletPortfolioBreakdown(
+  walletAddress: string,
+  options: WalletQueryOptions = {}
+): Promise<WalletPortfolioBreakdown> {
+  const [keyParts, ttlMs] = walletCacheKey(walletAddress, options.asOf);
+  return cached("wallet-portfolio", keyParts, ttlMs, () =>
+    fetchWalletPortfolioBreakdown(walletAddress, options.asOf)
+  );
+}
 
-      processClaims(claims, entries);
+async function fetchWalletPortfolioBreakdown(
+  walletAddress: string,
+  asOf?: Date
+): Promise<WalletPortfolioBreakdown> {
+  const normalizedWalletAddress = walletAddress.toLowerCase();
+  const valuation = emptyValuation();
 
-      offset += pageSize;
+  // Fetch all market claims for this wallet (filtered at database level)
+  const claims = await fetchWalletClaims(normalizedWalletAddress, asOf);
 
-      if (entries.length < pageSize) {
-        hasMore = false;
+  // Fetch last positions for this wallet (filtered at database level)
+  try {
+    for await (const entries of paginateWalletPositions(normalizedWalletAddress, asOf)) {
+      for (const entry of entries) {
+        addPositionValue(valuation, valuePosition(normalizedWalletAddress, entry, claims));
       }
-    } catch (error) {
-      console.error(`[WALLET PORTFOLIO] Error fetching market claims at offset ${offset}:`, error);
-      // If we get an error, break to avoid infinite loop
-      hasMore = false;
-      throw error;
     }
+  } catch (error) {
+    console.error(`[WALLET PORTFOLIO] Error fetching positions:`, error);
+    throw error;
   }
 
-  // Fetch last positions for this wallet (filtered at database level)
-  offset = 0;
-  hasMore = true;
-
-  while (hasMore) {
-    try {
-      const result = await GQL_CLIENT.request<{
-        ledger: LastPositionEntry[];
-      }>(GET_LAST_POSITION_BY_WALLET, {
-        limit: pageSize,
-        offset,
-        userAddress: normalizedWalletAddress,
-      });
-
-      const entries = result.ledger || [];
-
-      if (entries.length === 0) {
-        hasMore = false;
-        break;
-      }
-
-    for (const entry of entries) {
-      const { market_address, token_id, question } = entry;
-
-      if (question.question_resolves?.[0]?.answer != null) {
-        if (
-          (Number(token_id) &
-            Number(entry.question.question_resolves[0].answer)) !==
-          0
-        ) {
-          const key = buildClaimKey(walletAddress, market_address, token_id);
-          const fullClaimWei = -BigInt(entry.delta_quantity);
-          const claimedWei = claims?.[key] || BigInt(0);
-          const remainingWei = fullClaimWei - claimedWei;
-          if (remainingWei > BigInt(0)) {
-            const payoutPerOt = parseFloat(
-              entry.outcome?.outcome_stats[0].payout_hmr || "0"
-            );
-            const remaining = Number(formatUnits(remainingWei, 18));
-            const value = payoutPerOt * remaining;
-            portfolio += value;
-          }
-        }
-      } else {
-        const price = parseFloat(
-          entry.outcome?.outcome_stats[0].marginal_price_hmr || "0"
-        );
-        const quantity = parseFloat(entry?.current_quantity_hmr || "0");
-        const value = price * quantity;
-        portfolio += value;
-      }
-    }
+  // Fetch cash balance from BSC chain
+  setCash(valuation, await getWalletCashWad(walletAddress, asOf));
+
+  const warnings: string[] = [];
+  if (valuation.cash === null) {
+    warnings.push(
+      asOf
+        ? "Cash balance at the requested time unavailable (the RPC node may not serve historical state); counted as $0 in the total"
+        : "Cash balance unavailable; counted as $0 in the total"
+    );
+  }
+  if (valuation.unpriced_positions > 0) {
+    warnings.push(
+      `${valuation.unpriced_positions} position(s) have no price yet; valued at $0`
+    );
+  }
 
-      offset += pageSize;
+  return {
+    cash: valuation.cash === null ? null : toAmount(valuation.cash),
+    positions_value: toAmount(valuation.active_value),
+    unclaimed_winnings: toAmount(valuation.unclaimed_winnings),
+    losing_positions: valuation.losing_positions,
+    total: toAmount(valuation.total),
+    warnings,
+  };
+}
 
-      if (entries.length < pageSize) {
-        hasMore = false;
-      }
-    } catch (error) {
-      console.error(`[WALLET PORTFOLIO] Error fetching positions at offset ${offset}:`, error);
-      // If we get an error, break to avoid infinite loop
-      hasMore = false;
-      throw error;
-    }
-  }
+/**
+ * @description Get the USDC cash balance for a specific wallet address from BSC chain
+ * @returns the balance, or null if it could not be read
+ */
+export async function getWalletCashBalance(
+  walletAddress: string
+): Promise<number | null> {
+  const cash = await getWalletCashWad(walletAddress);
+  return cash === null ? null : toAmount(cash);
+}
 
-  // Fetch cash balance from BSC chain
+/**
+ * @description Get the USDC cash balance as a wad (see ../valuation.ts)
+ * @dev with asOf, reads the balance at the last block before that time, which needs
+ *      an RPC node that serves historical state
+ * @returns the balance, or null if it could not be read
+ */
+async function getWalletCashWad(walletAddress: string, asOf?: Date): Promise<bigint | null> {
+  const [keyParts, ttlMs] = walletCacheKey(walletAddress, asOf);
   try {
-    const result = await PUBLIC_CLIENT.readContract({
-      address: COLLATERAL_ADDRESS as `0x${string}`,
-      abi: ERC20_ABI,
-      functionName: "balanceOf",
-      args: [walletAddress as `0x${string}`],
-    });
+    // Failed reads throw before anything is cached
+    const raw = await cached("wallet-cash", keyParts, ttlMs, async () => {
+      const result = await PUBLIC_CLIENT.readContract({
+        address: COLLATERAL_ADDRESS as `0x${string}`,
+        abi: ERC20_ABI,
+        functionName: "balanceOf",
+        args: [walletAddress as `0x${string}`],
+        blockNumber: asOf ? await getBlockNumberAt(asOf) : undefined,
+      });
 
-    const usdcBalance = Number(formatUnits(result, 6));
-    portfolio += usdcBalance;
+      // Cached as a string, since entries must survive JSON serialization
+      return result.toString();
+    });
+    return usdcToWad(BigInt(raw));
   } catch (error: unknown) {
     // eslint-disable-next-line no-console
     console.warn(
-      `Failed to fetch USDC balance for ${walletAddress}:`,
+      `Failed to fetch USDC balance for ${walletAddress}${asOf ? ` as of ${asOf.toISOString()}` : ""}:`,
       error
     );
+    return null;
   }
-
-  return portfolio;
 }
 
 /**
  * @description Get all positions for a specific wallet address
+ * @dev with asOf, positions are rebuilt from the ledger rows up to that time and
+ *      marked at the price in effect then
+ */
+export async function getWalletPositions(
+  walletAddress: string,
+  options: WalletQueryOptions = {}
+): Promise<WalletPosition[]> {
+  return (await getWalletLedger(walletAddress, options)).positions;
+}
+
+/**
+ * @description Get PnL totals for a wallet: its open positions, plus the realized
+ *              PnL of positions it has fully exited
  */
-export async function getWalletPositions(walletAddress: string) {
+export async function getWalletPositionTotals(
+  walletAddress: string,
+  options: WalletQueryOptions = {}
+): Promise<WalletPositionTotals> {
+  const { positions, closed_realized_pnl } = await getWalletLedger(walletAddress, options);
+  return summarizePositions(positions, closed_realized_pnl);
+}
+
+/**
+ * Open positions and the realized PnL of closed ones, read in one pass over the
+ * wallet's last ledger rows and cached together
+ */
+interface WalletLedger {
+  positions: WalletPosition[];
+  closed_realized_pnl: number; // realized_pnl_hmr summed over positions with zero quantity
+}
+
+function getWalletLedger(walletAddress: string, options: WalletQueryOptions): Promise<WalletLedger> {
+  const [keyParts, ttlMs] = walletCacheKey(walletAddress, options.asOf);
+  return cached("wallet-positions", keyParts, ttlMs, () =>
+    fetchWalletLedger(walletAddress, options.asOf)
+  );
+}
+
+async function fetchWalletLedger(walletAddress: string, asOf?: Date): Promise<WalletLedger> {
   const positions: WalletPosition[] = [];
-  let offset = 0;
-  let hasMore = true;
-  const pageSize = 1000;
+  let closedRealizedPnl = 0;
   const normalizedWalletAddress = walletAddress.toLowerCase();
 
-  while (hasMore) {
-    try {
-      const result = await GQL_CLIENT.request<{
-        ledger: LastPositionEntry[];
-      }>(GET_LAST_POSITION_BY_WALLET, {
-        limit: pageSize,
-        offset,
-        userAddress: normalizedWalletAddress,
-      });
+  try {
+    for await (const entries of paginateWalletPositions(normalizedWalletAddress, asOf)) {
+      for (const entry of entries) {
+        const quantity = parseFloat(entry.current_quantity_hmr || "0");
+
+        // Fully exited positions only count towards realized PnL
+        if (quantity === 0) {
+          closedRealizedPnl += parseFloat(entry.realized_pnl_hmr || "0");
+        } else {
+          // Resolved positions are marked at their payout, not the last marginal price
+          const price = toAmount(markPrice(entry));
+          const pnl = positionPnl(entry);
+          const answer = entry.question.question_resolves?.[0]?.answer;
+          const isResolved = answer != null;
+          const isWinning = isResolved && decodeOutcome(entry.token_id, answer).is_winning;
+
+          positions.push({
+            market_address: entry.market_address,
+            token_id: entry.token_id,
+            outcomes: bitmaskIndexes(parseBitmask(entry.token_id)),
+            quantity: quantity,
+            current_price: price,
+            value: toAmount(pnl.market_value),
+            avg_price: parseFloat(entry.avg_price_hmr || "0"),
+            cost_basis: toAmount(pnl.cost_basis),
+            realized_pnl: parseFloat(entry.realized_pnl_hmr || "0"),
+            unrealized_pnl: toAmount(pnl.unrealized_pnl),
+            total_pnl: toAmount(pnl.total_pnl),
+            block_timestamp: entry.block_timestamp,
+            event_type: entry.event_type,
+            is_resolved: isResolved,
+            is_winning: isWinning,
+            payout_hmr: entry.outcome?.outcome_stats[0]?.payout_hmr || null,
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`[WALLET POSITIONS] Error fetching positions:`, error);
+    throw error;
+  }
 
-      const entries = result.ledger || [];
+  return { positions, closed_realized_pnl: closedRealizedPnl };
+}
 
-      if (entries.length === 0) {
-        hasMore = false;
-        break;
-      }
+/**
+ * @description Sum cost basis, value and PnL over a wallet's positions
+ * @param closedRealizedPnl - Realized PnL of positions no longer held, which the
+ *        positions list leaves out (see getWalletPositionTotals)
+ */
+export function summarizePositions(
+  positions: WalletPosition[],
+  closedRealizedPnl = 0
+): WalletPositionTotals {
+  const totals: WalletPositionTotals = {
+    cost_basis: 0,
+    value: 0,
+    realized_pnl: closedRealizedPnl,
+    unrealized_pnl: 0,
+    total_pnl: closedRealizedPnl,
+  };
+  for (const position of positions) {
+    totals.cost_basis += position.cost_basis;
+    totals.value += position.value;
+    totals.realized_pnl += position.realized_pnl;
+    totals.unrealized_pnl += position.unrealized_pnl;
+    totals.total_pnl += position.total_pnl;
+  }
+  return totals;
+}
 
-    for (const entry of entries) {
-      const quantity = parseFloat(entry.current_quantity_hmr || "0");
-      
-      // Only include positions with non-zero quantity
-      if (quantity !== 0) {
-        const price = parseFloat(
-          entry.outcome?.outcome_stats[0]?.marginal_price_hmr || "0"
+/**
+ * @description Get the resolved markets a wallet held outcome tokens in,
+ *              with the quantity held on each side and the expected payout
+ * @dev once a market is finalised the last ledger entry burns the tokens,
+ *      so the held quantity is read from its delta instead of the current quantity
+ */
+export async function getWalletResolvedMarkets(
+  walletAddress: string
+): Promise<ResolvedMarketHolding[]> {
+  return cached("wallet-resolutions", [walletAddress.toLowerCase()], WALLET_TTL_MS, () =>
+    fetchWalletResolvedMarkets(walletAddress)
+  );
+}
+
+async function fetchWalletResolvedMarkets(
+  walletAddress: string
+): Promise<ResolvedMarketHolding[]> {
+  const normalizedWalletAddress = walletAddress.toLowerCase();
+  const claims = await fetchWalletClaims(normalizedWalletAddress);
+  const markets = new Map<string, ResolvedMarketHolding>();
+
+  try {
+    for await (const entries of paginateWalletPositions(normalizedWalletAddress)) {
+      for (const entry of entries) {
+        const resolve = entry.question.question_resolves?.[0];
+        if (resolve?.answer == null) {
+          continue;
+        }
+
+        const heldWei = heldAtResolution(entry);
+        if (heldWei <= BigInt(0)) {
+          continue;
+        }
+
+        const outcome = decodeOutcome(entry.token_id, resolve.answer);
+        const isWinning = outcome.is_winning;
+        const key = buildClaimKey(normalizedWalletAddress, entry.market_address, entry.token_id);
+        const claimedWei = claims[key] || BigInt(0);
+        const unclaimedWei = heldWei > claimedWei ? heldWei - claimedWei : BigInt(0);
+        const payoutPerToken = toAmount(
+          outcomePayout(outcome, entry.outcome?.outcome_stats[0]?.payout_hmr)
         );
-        const value = price * quantity;
-        const isResolved =
-          entry.question.question_resolves?.[0]?.answer != null;
-        const isWinning =
-          isResolved &&
-          (Number(entry.token_id) &
-            Number(entry.question.question_resolves[0].answer)) !==
-            0;
-
-        positions.push({
-          market_address: entry.market_address,
+        const quantity = Number(formatUnits(heldWei, 18));
+        const unclaimedQuantity = Number(formatUnits(unclaimedWei, 18));
+
+        let market = markets.get(entry.market_address);
+        if (!market) {
+          market = {
+            market_address: entry.market_address,
+            question_id: entry.question.id,
+            title: entry.question.title || null,
+            answer: resolve.answer,
+            resolved_outcomes: outcome.resolved_true,
+            resolved_at: resolve.block_timestamp,
+            tokens: [],
+            expected_payout: 0,
+            unclaimed_payout: 0,
+            needs_claim: false,
+          };
+          markets.set(entry.market_address, market);
+        }
+
+        const token: ResolvedTokenHolding = {
           token_id: entry.token_id,
-          quantity: quantity,
-          current_price: price,
-          value: value,
-          realized_pnl: parseFloat(entry.realized_pnl_hmr || "0"),
-          block_timestamp: entry.block_timestamp,
-          event_type: entry.event_type,
-          is_resolved: isResolved,
+          symbol: entry.outcome?.outcome_metadata?.[0]?.symbol || null,
+          outcomes: outcome.outcomes,
+          winning_outcomes: outcome.winning,
+          quantity,
           is_winning: isWinning,
-          payout_hmr: entry.outcome?.outcome_stats[0]?.payout_hmr || null,
-        });
+          payout_per_token: isWinning ? payoutPerToken : 0,
+          expected_payout: isWinning ? payoutPerToken * quantity : 0,
+          unclaimed_quantity: isWinning ? unclaimedQuantity : 0,
+          needs_claim: isWinning && unclaimedWei > BigInt(0),
+        };
+        market.tokens.push(token);
+        market.expected_payout += token.expected_payout;
+        market.unclaimed_payout += token.payout_per_token * token.unclaimed_quantity;
+        market.needs_claim = market.needs_claim || token.needs_claim;
       }
     }
+  } catch (error) {
+    console.error(`[WALLET RESOLUTIONS] Error fetching positions:`, error);
+    throw error;
+  }
 
-      offset += pageSize;
+  return Array.from(markets.values());
+}
 
-      if (entries.length < pageSize) {
-        hasMore = false;
+/**
+ * @description List the winning positions a wallet still has to claim, one entry per
+ *              market/token, with how long each has sat unclaimed since its market resolved
+ * @dev derived from getWalletResolvedMarkets, so claims are subtracted the same way
+ */
+export async function getWalletUnclaimedWinnings(
+  walletAddress: string
+): Promise<UnclaimedWinning[]> {
+  const markets = await getWalletResolvedMarkets(walletAddress);
+  const now = Date.now();
+  const winnings: UnclaimedWinning[] = [];
+
+  for (const market of markets) {
+    for (const token of market.tokens) {
+      if (!token.needs_claim) {
+        continue;
       }
-    } catch (error) {
-      console.error(`[WALLET POSITIONS] Error fetching positions at offset ${offset}:`, error);
-      // If we get an error, break to avoid infinite loop
-      hasMore = false;
-      throw error;
+      winnings.push({
+        market_address: market.market_address,
+        question_id: market.question_id,
+        title: market.title,
+        token_id: token.token_id,
+        symbol: token.symbol,
+        quantity: token.unclaimed_quantity,
+        payout_per_token: token.payout_per_token,
+        value: token.unclaimed_quantity * token.payout_per_token,
+        resolved_at: market.resolved_at,
+        unclaimed_for_ms: Math.max(0, now - new Date(market.resolved_at).getTime()),
+      });
     }
   }
 
-  return positions;
+  // Longest-waiting first
+  return winnings.sort((a, b) => b.unclaimed_for_ms - a.unclaimed_for_ms);
 }
 
 export const GET_LAST_POSITION = gql`
-  query GetLastPosition($limit: Int!, $offset: Int!) {
+  query GetLastPosition($limit: Int!, $cursor: ledger_bool_exp!) {
     ledger(
       limit: $limit
-      offset: $offset
+      where: $cursor
       order_by: [
         { user_address: asc }
         { market_address: asc }
@@ -241,6 +427,7 @@ export const GET_LAST_POSITION = gql`
       token_id
       current_quantity_hmr
       delta_quantity
+      avg_price_hmr
       realized_pnl_hmr
       block_timestamp
       event_type
@@ -249,8 +436,13 @@ export const GET_LAST_POSITION = gql`
           marginal_price_hmr
           payout_hmr
         }
+        outcome_metadata(limit: 1) {
+          symbol
+        }
       }
       question {
+        id
+        title
         question_resolves(limit: 1, order_by: { block_timestamp: desc }) {
           answer
           block_timestamp
@@ -262,11 +454,14 @@ export const GET_LAST_POSITION = gql`
 
 // Query filtered by wallet address for efficiency
 export const GET_LAST_POSITION_BY_WALLET = gql`
-  query GetLastPositionByWallet($limit: Int!, $offset: Int!, $userAddress: String!) {
+  query GetLastPositionByWallet(
+    $limit: Int!
+    $cursor: ledger_bool_exp!
+    $userAddress: String!
+  ) {
     ledger(
       limit: $limit
-      offset: $offset
-      where: { user_address: { _eq: $userAddress } }
+      where: { _and: [$cursor, { user_address: { _eq: $userAddress } }] }
       order_by: [
         { market_address: asc }
         { token_id: asc }
@@ -279,6 +474,7 @@ export const GET_LAST_POSITION_BY_WALLET = gql`
       token_id
       current_quantity_hmr
       delta_quantity
+      avg_price_hmr
       realized_pnl_hmr
       block_timestamp
       event_type
@@ -287,8 +483,13 @@ export const GET_LAST_POSITION_BY_WALLET = gql`
           marginal_price_hmr
           payout_hmr
         }
+        outcome_metadata(limit: 1) {
+          symbol
+        }
       }
       question {
+        id
+        title
         question_resolves(limit: 1, order_by: { block_timestamp: desc }) {
           answer
           block_timestamp
@@ -298,12 +499,74 @@ export const GET_LAST_POSITION_BY_WALLET = gql`
   }
 `;
 
+// Last positions of a wallet as they stood at $asOf: only ledger rows, prices and
+// resolutions recorded up to then
+export const GET_LAST_POSITION_BY_WALLET_AS_OF = gql`
+  query GetLastPositionByWalletAsOf(
+    $limit: Int!
+    $cursor: ledger_bool_exp!
+    $userAddress: String!
+    $asOf: timestamptz!
+  ) {
+    ledger(
+      limit: $limit
+      where: {
+        _and: [
+          $cursor
+          { user_address: { _eq: $userAddress }, block_timestamp: { _lte: $asOf } }
+        ]
+      }
+      order_by: [
+        { market_address: asc }
+        { token_id: asc }
+        { block_timestamp: desc }
+      ]
+      distinct_on: [market_address, token_id]
+    ) {
+      user_address
+      market_address
+      token_id
+      current_quantity_hmr
+      delta_quantity
+      avg_price_hmr
+      realized_pnl_hmr
+      block_timestamp
+      event_type
+      outcome {
+        outcome_stats(
+          limit: 1
+          order_by: [{ block_timestamp: desc }]
+          where: { block_timestamp: { _lte: $asOf } }
+        ) {
+          marginal_price_hmr
+          payout_hmr
+        }
+        outcome_metadata(limit: 1) {
+          symbol
+        }
+      }
+      question {
+        id
+        title
+        question_resolves(
+          limit: 1
+          order_by: { block_timestamp: desc }
+          where: { block_timestamp: { _lte: $asOf } }
+        ) {
+          answer
+          block_timestamp
+        }
+      }
+    }
+  }
+`;
+
 export const GET_MARKET_CLAIMS = gql`
-  query GetMarketClaims($limit: Int!, $offset: Int!) {
+  query GetMarketClaims($limit: Int!, $cursor: market_claim_bool_exp!) {
     market_claim(
       limit: $limit
-      offset: $offset
-      where: { quantity: { _gt: "0" } }
+      order_by: { id: asc }
+      where: { _and: [$cursor, { quantity: { _gt: "0" } }] }
     ) {
       id
       user_address
@@ -318,13 +581,52 @@ export const GET_MARKET_CLAIMS = gql`
 
 // Query filtered by wallet address for efficiency
 export const GET_MARKET_CLAIMS_BY_WALLET = gql`
-  query GetMarketClaimsByWallet($limit: Int!, $offset: Int!, $userAddress: String!) {
+  query GetMarketClaimsByWallet(
+    $limit: Int!
+    $cursor: market_claim_bool_exp!
+    $userAddress: String!
+  ) {
     market_claim(
       limit: $limit
-      offset: $offset
-      where: { 
-        quantity: { _gt: "0" }
-        user_address: { _eq: $userAddress }
+      order_by: { id: asc }
+      where: {
+        _and: [
+          $cursor
+          { quantity: { _gt: "0" }, user_address: { _eq: $userAddress } }
+        ]
+      }
+    ) {
+      id
+      user_address
+      market_address
+      quantity
+      token_id
+      block_timestamp
+      collateral
+    }
+  }
+`;
+
+// Claims of a wallet made up to $asOf
+export const GET_MARKET_CLAIMS_BY_WALLET_AS_OF = gql`
+  query GetMarketClaimsByWalletAsOf(
+    $limit: Int!
+    $cursor: market_claim_bool_exp!
+    $userAddress: String!
+    $asOf: timestamptz!
+  ) {
+    market_claim(
+      limit: $limit
+      order_by: { id: asc }
+      where: {
+        _and: [
+          $cursor
+          {
+            quantity: { _gt: "0" }
+            user_address: { _eq: $userAddress }
+            block_timestamp: { _lte: $asOf }
+          }
+        ]
       }
     ) {
       id
@@ -340,15 +642,28 @@ export const GET_MARKET_CLAIMS_BY_WALLET = gql`
 
 type LastPositionEntry = GetLastPositionQuery["ledger"][number];
 type ClaimEntry = GetMarketClaimsQuery["market_claim"][number];
-export type MarketClaims = Record<string, bigint>;
+
+export interface WalletPortfolioBreakdown {
+  cash: number | null; // USDC balance, null if it could not be read
+  positions_value: number; // Mark-to-market value of unresolved positions
+  unclaimed_winnings: number; // Resolved winning positions not yet claimed
+  losing_positions: number; // Resolved positions on the losing side, worth nothing
+  total: number;
+  warnings: string[]; // Components that could not be valued fully, e.g. an unavailable cash balance
+}
 
 export interface WalletPosition {
   market_address: string;
   token_id: string;
+  outcomes: number[]; // Outcome indexes the token covers (bits of token_id)
   quantity: number;
   current_price: number;
   value: number;
+  avg_price: number; // Average entry price (avg_price_hmr)
+  cost_basis: number; // quantity x avg_price
   realized_pnl: number;
+  unrealized_pnl: number; // value - cost_basis
+  total_pnl: number; // realized_pnl + unrealized_pnl
   block_timestamp: string;
   event_type: string;
   is_resolved: boolean;
@@ -356,16 +671,92 @@ export interface WalletPosition {
   payout_hmr: string | null;
 }
 
-function buildClaimKey(user: string, market: string, tokenId: string) {
-  return `${user}-${market}-${tokenId}`;
+export interface WalletPositionTotals {
+  cost_basis: number;
+  value: number;
+  realized_pnl: number;
+  unrealized_pnl: number;
+  total_pnl: number;
 }
 
-function processClaims(claims: MarketClaims, entries: ClaimEntry[]) {
-  for (const entry of entries) {
-    const { user_address, market_address, token_id, quantity } = entry;
-    const key = buildClaimKey(user_address, market_address, token_id);
-    const claimWei = claims?.[key] || BigInt(0);
-    claims[key] = claimWei + BigInt(quantity);
-  }
+export interface ResolvedTokenHolding {
+  token_id: string;
+  symbol: string | null;
+  outcomes: number[]; // Outcome indexes the token covers
+  winning_outcomes: number[]; // Covered outcome indexes that resolved true
+  quantity: number; // Quantity held when the market resolved
+  is_winning: boolean;
+  payout_per_token: number; // payout_hmr (or the answer's split) for winning tokens, 0 otherwise
+  expected_payout: number;
+  unclaimed_quantity: number;
+  needs_claim: boolean;
+}
+
+export interface ResolvedMarketHolding {
+  market_address: string;
+  question_id: string;
+  title: string | null;
+  answer: string; // Bitmask of the outcomes that resolved true
+  resolved_outcomes: number[]; // Outcome indexes set in answer
+  resolved_at: string;
+  tokens: ResolvedTokenHolding[];
+  expected_payout: number;
+  unclaimed_payout: number;
+  needs_claim: boolean;
+}
+
+export interface UnclaimedWinning {
+  market_address: string;
+  question_id: string;
+  title: string | null;
+  token_id: string;
+  symbol: string | null;
+  quantity: number; // Winning tokens held at resolution and not yet claimed
+  payout_per_token: number;
+  value: number; // quantity x payout_per_token
+  resolved_at: string;
+  unclaimed_for_ms: number; // Time since the market resolved
+}
+
+/**
+ * Page through the last ledger entry of each market/token a wallet traded,
+ * up to asOf if given
+ */
+function paginateWalletPositions(normalizedWalletAddress: string, asOf?: Date) {
+  return paginate<LastPositionEntry>({
+    query: asOf ? GET_LAST_POSITION_BY_WALLET_AS_OF : GET_LAST_POSITION_BY_WALLET,
+    field: "ledger",
+    keys: ["market_address", "token_id"],
+    variables: asOf
+      ? { userAddress: normalizedWalletAddress, asOf: asOf.toISOString() }
+      : { userAddress: normalizedWalletAddress },
+  });
 }
 
+/**
+ * Fetch and sum all market claims for a wallet, up to asOf if given, keyed by buildClaimKey
+ */
+async function fetchWalletClaims(
+  normalizedWalletAddress: string,
+  asOf?: Date
+): Promise<MarketClaims> {
+  const claims: MarketClaims = {};
+
+  try {
+    for await (const entries of paginate<ClaimEntry>({
+      query: asOf ? GET_MARKET_CLAIMS_BY_WALLET_AS_OF : GET_MARKET_CLAIMS_BY_WALLET,
+      field: "market_claim",
+      keys: ["id"],
+      variables: asOf
+        ? { userAddress: normalizedWalletAddress, asOf: asOf.toISOString() }
+        : { userAddress: normalizedWalletAddress },
+    })) {
+      addClaims(claims, entries);
+    }
+  } catch (error) {
+    console.error(`[WALLET CLAIMS] Error fetching market claims:`, error);
+    throw error;
+  }
+
+  return claims;
+}
@@ -0,0 +1,236 @@
+/**
+ * Timeouts, retries and circuit breaking for upstream calls (Hasura and the BSC RPC)
+ *
+ * Each upstream gets a policy from the environment, e.g. HASURA_TIMEOUT_MS or RPC_RETRIES.
+ * Transient failures (timeouts, network errors, 429 and 5xx) are retried with
+ * jittered exponential backoff. After CIRCUIT_FAILURE_THRESHOLD calls in a row
+ * fail, the circuit opens and calls fail fast with UpstreamUnavailable until
+ * CIRCUIT_RESET_MS has passed; then a single trial call decides whether it closes.
+ */
+
+export type UpstreamName = "hasura" | "rpc";
+
+/**
+ * The upstream could not be reached, timed out, or its circuit is open
+ */
+export class UpstreamUnavailable extends Error {
+  readonly upstream: UpstreamName;
+  readonly retryAfterSeconds: number; // Hint for clients, e.g. a Retry-After header
+  readonly cause?: unknown;
+
+  constructor(upstream: UpstreamName, message: string, retryAfterSeconds: number, cause?: unknown) {
+    super(message);
+    this.name = "UpstreamUnavailable";
+    this.upstream = upstream;
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The upstream answered but rejected the request (GraphQL or JSON-RPC error); retrying won't help
+ */
+export class QueryError extends Error {
+  readonly upstream: UpstreamName;
+  readonly cause?: unknown;
+
+  constructor(upstream: UpstreamName, message: string, cause?: unknown) {
+    super(message);
+    this.name = "QueryError";
+    this.upstream = upstream;
+    this.cause = cause;
+  }
+}
+
+export interface UpstreamPolicy {
+  timeoutMs: number;
+  retries: number; // Extra attempts after the first
+  baseDelayMs: number;
+  maxDelayMs: number;
+  failureThreshold: number; // Failed calls in a row that open the circuit
+  resetMs: number; // How long the circuit stays open
+}
+
+type CircuitState = "closed" | "open" | "half-open";
+
+export interface Upstream {
+  name: UpstreamName;
+  policy: UpstreamPolicy;
+  /**
+   * Run `attempt` under the policy
+   * @param attempt - Receives an AbortSignal that fires after the timeout
+   * @param classify - Maps an error to "transient" (retry) or a QueryError
+   */
+  call<T>(
+    attempt: (signal: AbortSignal) => Promise<T>,
+    classify: (error: unknown) => "transient" | QueryError
+  ): Promise<T>;
+  describe(): { state: CircuitState; consecutiveFailures: number; openUntil: string | null };
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "");
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Read the policy of an upstream from <PREFIX>_TIMEOUT_MS and <PREFIX>_RETRIES,
+ * with the shared CIRCUIT_FAILURE_THRESHOLD and CIRCUIT_RESET_MS
+ */
+export function loadUpstreamPolicy(prefix: string, defaults: { timeoutMs: number; retries: number }): UpstreamPolicy {
+  return {
+    timeoutMs: envInt(`${prefix}_TIMEOUT_MS`, defaults.timeoutMs),
+    retries: envInt(`${prefix}_RETRIES`, defaults.retries),
+    baseDelayMs: 250,
+    maxDelayMs: 5000,
+    failureThreshold: envInt("CIRCUIT_FAILURE_THRESHOLD", 5),
+    resetMs: envInt("CIRCUIT_RESET_MS", 30 * 1000),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create an upstream with its own circuit breaker
+ */
+export function createUpstream(name: UpstreamName, policy: UpstreamPolicy): Upstream {
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+  let trialInFlight = false;
+
+  const retryAfterSeconds = () => Math.max(1, Math.ceil((openUntil - Date.now()) / 1000));
+
+  /**
+   * @returns seconds until the next call may succeed
+   */
+  function recordFailure(): number {
+    consecutiveFailures++;
+    if (state === "half-open" || consecutiveFailures >= policy.failureThreshold) {
+      if (state !== "open") {
+        console.error(`[UPSTREAM] ❌ ${name} circuit open for ${policy.resetMs / 1000}s after ${consecutiveFailures} failed call(s)`);
+      }
+      state = "open";
+      openUntil = Date.now() + policy.resetMs;
+    }
+    return state === "open" ? retryAfterSeconds() : 1;
+  }
+
+  function recordSuccess(): void {
+    if (state !== "closed") {
+      console.log(`[UPSTREAM] ✅ ${name} circuit closed`);
+    }
+    state = "closed";
+    consecutiveFailures = 0;
+  }
+
+  return {
+    name,
+    policy,
+
+    async call<T>(
+      attempt: (signal: AbortSignal) => Promise<T>,
+      classify: (error: unknown) => "transient" | QueryError
+    ): Promise<T> {
+      if (state === "open") {
+        if (Date.now() < openUntil) {
+          throw new UpstreamUnavailable(name, `${name} is unavailable (circuit open)`, retryAfterSeconds());
+        }
+        state = "half-open";
+      }
+
+      // While half-open, only one trial call goes through
+      const isTrial = state === "half-open";
+      if (isTrial) {
+        if (trialInFlight) {
+          throw new UpstreamUnavailable(name, `${name} is unavailable (circuit half-open)`, 1);
+        }
+        trialInFlight = true;
+      }
+
+      try {
+        let lastError: unknown;
+        for (let i = 0; i <= policy.retries; i++) {
+          if (i > 0) {
+            // Full jitter: wait a random time up to the exponential delay
+            const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (i - 1));
+            await sleep(Math.random() * cap);
+          }
+
+          try {
+            const result = await attempt(AbortSignal.timeout(policy.timeoutMs));
+            recordSuccess();
+            return result;
+          } catch (error) {
+            const kind = classify(error);
+            if (kind !== "transient") {
+              // The upstream is up, it just rejected this request
+              recordSuccess();
+              throw kind;
+            }
+            lastError = error;
+            console.warn(`[UPSTREAM] ⚠️ ${name} attempt ${i + 1}/${policy.retries + 1} failed: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+
+        const retryAfter = recordFailure();
+        const reason = lastError instanceof Error ? lastError.message : "Unknown error";
+        throw new UpstreamUnavailable(
+          name,
+          `${name} request failed after ${policy.retries + 1} attempt(s): ${reason}`,
+          retryAfter,
+          lastError
+        );
+      } finally {
+        if (isTrial) {
+          trialInFlight = false;
+        }
+      }
+    },
+
+    describe() {
+      return {
+        state: state === "open" && Date.now() >= openUntil ? "half-open" : state,
+        consecutiveFailures,
+        openUntil: state === "open" ? new Date(openUntil).toISOString() : null,
+      };
+    },
+  };
+}
+
+/**
+ * True for errors that mean the request never got a usable answer:
+ * timeouts, aborted or refused connections, rate limits and 5xx responses
+ */
+export function isTransientError(error: unknown, status?: number): boolean {
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === "TimeoutError" || error.name === "AbortError") {
+    return true;
+  }
+  // Node's fetch reports network failures as a TypeError with a system error cause
+  const cause = (error as { cause?: { message?: string } }).cause;
+  const text = `${error.message} ${cause?.message ?? ""}`;
+  return /fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|network/i.test(text);
+}
+
+/**
+ * Find an UpstreamUnavailable or QueryError in an error or its causes
+ * Libraries such as viem wrap transport errors, so the typed error may be nested
+ */
+export function findUpstreamError(error: unknown): UpstreamUnavailable | QueryError | null {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (current instanceof UpstreamUnavailable || current instanceof QueryError) {
+      return current;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return null;
+}
@@ -0,0 +1,267 @@
+import { formatUnits, parseUnits } from "viem";
+import { decodeOutcome, outcomePayout } from "./outcome";
+
+/**
+ * Portfolio valuation shared by the per-wallet queries and the leaderboard
+ *
+ * All amounts are bigints with 18 decimals ("wad"): outcome token quantities are
+ * already in wei, prices and payouts are parsed from their decimal strings, and
+ * USDC (6 decimals) is scaled up. Convert with toAmount only when presenting.
+ */
+
+const WAD_DECIMALS = 18;
+const WAD = BigInt(10) ** BigInt(WAD_DECIMALS);
+const USDC_DECIMALS = 6;
+
+/**
+ * The fields of a wallet's last ledger entry for a market/token that valuation needs
+ */
+export interface ValuedPosition {
+  market_address: string;
+  token_id: string;
+  current_quantity_hmr?: string | null;
+  delta_quantity: string; // Raw wei; negative on the finalise entry that burns the tokens
+  event_type?: string;
+  outcome?: {
+    outcome_stats: Array<{
+      marginal_price_hmr?: string | null;
+      payout_hmr?: string | null;
+    }>;
+  } | null;
+  question: {
+    question_resolves?: Array<{ answer?: string | null }> | null;
+  };
+}
+
+/**
+ * A claim from market_claim; quantity is raw wei
+ */
+export interface ValuedClaim {
+  user_address: string;
+  market_address: string;
+  token_id: string;
+  quantity: string;
+}
+
+/**
+ * Claimed wei per user, market and token, keyed by buildClaimKey
+ */
+export type MarketClaims = Record<string, bigint>;
+
+// closed: the position was exited before the market resolved
+export type PositionStatus = "active" | "unclaimed" | "claimed" | "losing" | "closed";
+
+export interface PositionValue {
+  status: PositionStatus;
+  value: bigint; // Wad
+  priced: boolean; // False if an unresolved position had no price and was valued at 0
+}
+
+export interface PortfolioValuation {
+  active_value: bigint; // Unresolved positions marked at the marginal price
+  unclaimed_winnings: bigint; // Winning resolved positions not yet claimed, at the payout
+  losing_positions: number; // Resolved positions on the losing side (worth nothing)
+  unpriced_positions: number; // Unresolved positions valued at 0 for lack of a price
+  cash: bigint | null; // USDC balance, null if it could not be read
+  total: bigint; // Cash counts as 0 when unavailable
+}
+
+/**
+ * Key for MarketClaims; addresses are lowercased so ledger and claim rows always match
+ */
+export function buildClaimKey(user: string, market: string, tokenId: string): string {
+  return `${user.toLowerCase()}-${market.toLowerCase()}-${tokenId}`;
+}
+
+/**
+ * Add claims to the running totals in `claims`
+ */
+export function addClaims(claims: MarketClaims, entries: ValuedClaim[]): void {
+  for (const { user_address, market_address, token_id, quantity } of entries) {
+    const key = buildClaimKey(user_address, market_address, token_id);
+    claims[key] = (claims[key] || BigInt(0)) + BigInt(quantity);
+  }
+}
+
+/**
+ * Parse a decimal string (e.g. current_quantity_hmr or payout_hmr) as a wad
+ */
+export function parseWad(value: string | null | undefined): bigint {
+  return value ? parseUnits(value, WAD_DECIMALS) : BigInt(0);
+}
+
+/**
+ * Scale a raw USDC balance (6 decimals) to a wad
+ */
+export function usdcToWad(raw: bigint): bigint {
+  return raw * BigInt(10) ** BigInt(WAD_DECIMALS - USDC_DECIMALS);
+}
+
+/**
+ * Convert a wad to a number for display and JSON responses
+ */
+export function toAmount(wad: bigint): number {
+  return Number(formatUnits(wad, WAD_DECIMALS));
+}
+
+function mulWad(a: bigint, b: bigint): bigint {
+  return (a * b) / WAD;
+}
+
+/**
+ * Quantity (wei) held when the market resolved
+ * Once a market is finalised its last ledger entry burns the tokens, so the
+ * quantity is read from that delta instead of the current quantity
+ */
+export function heldAtResolution(position: ValuedPosition): bigint {
+  return position.event_type === "finalise"
+    ? -BigInt(position.delta_quantity)
+    : parseWad(position.current_quantity_hmr);
+}
+
+/**
+ * @description Value one position of a user
+ * @dev unresolved: current quantity x marginal price.
+ *      resolved and winning: (quantity held at resolution - quantity claimed) x payout,
+ *      where the payout is payout_hmr or the answer's split (see ../outcome.ts).
+ *      resolved and losing: worth nothing
+ */
+export function valuePosition(
+  userAddress: string,
+  position: ValuedPosition,
+  claims: MarketClaims
+): PositionValue {
+  const stats = position.outcome?.outcome_stats[0];
+  const answer = position.question.question_resolves?.[0]?.answer;
+  const empty = { value: BigInt(0), priced: true };
+
+  if (answer == null) {
+    const quantity = parseWad(position.current_quantity_hmr);
+    return {
+      status: "active",
+      value: mulWad(quantity, parseWad(stats?.marginal_price_hmr)),
+      priced: quantity === BigInt(0) || stats?.marginal_price_hmr != null,
+    };
+  }
+
+  const heldWei = heldAtResolution(position);
+  if (heldWei <= BigInt(0)) {
+    return { status: "closed", ...empty };
+  }
+  const outcome = decodeOutcome(position.token_id, answer);
+  if (!outcome.is_winning) {
+    return { status: "losing", ...empty };
+  }
+
+  const key = buildClaimKey(userAddress, position.market_address, position.token_id);
+  const remainingWei = heldWei - (claims[key] || BigInt(0));
+  if (remainingWei <= BigInt(0)) {
+    return { status: "claimed", ...empty };
+  }
+  return {
+    status: "unclaimed",
+    value: mulWad(remainingWei, outcomePayout(outcome, stats?.payout_hmr)),
+    priced: true,
+  };
+}
+
+export function emptyValuation(): PortfolioValuation {
+  return {
+    active_value: BigInt(0),
+    unclaimed_winnings: BigInt(0),
+    losing_positions: 0,
+    unpriced_positions: 0,
+    cash: null,
+    total: BigInt(0),
+  };
+}
+
+/**
+ * Add a valued position to a portfolio
+ */
+export function addPositionValue(valuation: PortfolioValuation, position: PositionValue): void {
+  switch (position.status) {
+    case "active":
+      valuation.active_value += position.value;
+      break;
+    case "unclaimed":
+      valuation.unclaimed_winnings += position.value;
+      break;
+    case "losing":
+      valuation.losing_positions++;
+      break;
+  }
+  if (!position.priced) {
+    valuation.unpriced_positions++;
+  }
+  valuation.total += position.value;
+}
+
+/**
+ * Set the cash balance of a portfolio (as a wad, or null if unavailable)
+ */
+export function setCash(valuation: PortfolioValuation, cash: bigint | null): void {
+  valuation.total += (cash ?? BigInt(0)) - (valuation.cash ?? BigInt(0));
+  valuation.cash = cash;
+}
+
+/**
+ * Value a user's positions, claims and cash
+ */
+export function valuePortfolio(
+  userAddress: string,
+  positions: Iterable<ValuedPosition>,
+  claims: MarketClaims,
+  cash: bigint | null
+): PortfolioValuation {
+  const valuation = emptyValuation();
+  for (const position of positions) {
+    addPositionValue(valuation, valuePosition(userAddress, position, claims));
+  }
+  setCash(valuation, cash);
+  return valuation;
+}
+
+/**
+ * Price per token a held position is marked at (wad)
+ * Once the market resolved this is the payout (payout_hmr or the answer's split),
+ * or 0 on the losing side; before that, the marginal price
+ */
+export function markPrice(position: ValuedPosition): bigint {
+  const stats = position.outcome?.outcome_stats[0];
+  const answer = position.question.question_resolves?.[0]?.answer;
+  if (answer == null) {
+    return parseWad(stats?.marginal_price_hmr);
+  }
+  return outcomePayout(decodeOutcome(position.token_id, answer), stats?.payout_hmr);
+}
+
+export interface PositionPnl {
+  cost_basis: bigint; // Current quantity x average entry price
+  market_value: bigint; // Current quantity x mark price (see markPrice)
+  unrealized_pnl: bigint;
+  total_pnl: bigint; // Realized + unrealized
+}
+
+/**
+ * @description Cost basis and PnL of an open position, from its last ledger entry
+ * @dev unrealized = quantity x (mark price - average entry price), so a resolved
+ *      position is worth its payout, as in valuePosition
+ */
+export function positionPnl(
+  position: ValuedPosition & {
+    avg_price_hmr?: string | null;
+    realized_pnl_hmr?: string | null;
+  }
+): PositionPnl {
+  const quantity = parseWad(position.current_quantity_hmr);
+  const costBasis = mulWad(quantity, parseWad(position.avg_price_hmr));
+  const marketValue = mulWad(quantity, markPrice(position));
+  const unrealized = marketValue - costBasis;
+  return {
+    cost_basis: costBasis,
+    market_value: marketValue,
+    unrealized_pnl: unrealized,
+    total_pnl: parseWad(position.realized_pnl_hmr) + unrealized,
+  };
+}
@@ -0,0 +1,59 @@
+import { CacheBackend, CacheEntry, setCacheBackend } from "../lib/for-wenbo-main/cache";
+import { getStorage } from "./storage";
+
+const CACHE_PREFIX = "cache:";
+
+/**
+ * Cache backend writing entries through to the configured storage
+ */
+function createStorageCacheBackend(): CacheBackend {
+  return {
+    name: "storage",
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+      const storage = await getStorage();
+      const entry = await storage.get<CacheEntry<T>>(`${CACHE_PREFIX}${key}`);
+      if (entry && entry.expiresAt <= Date.now()) {
+        // Expired entries are removed lazily
+        await storage.delete(`${CACHE_PREFIX}${key}`);
+        return null;
+      }
+      return entry;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+      const storage = await getStorage();
+      await storage.set(`${CACHE_PREFIX}${key}`, entry);
+    },
+
+    async delete(key: string): Promise<void> {
+      const storage = await getStorage();
+      await storage.delete(`${CACHE_PREFIX}${key}`);
+    },
+
+    async keys(prefix: string): Promise<string[]> {
+      const storage = await getStorage();
+      const keys = await storage.keys(`${CACHE_PREFIX}${prefix}`);
+      return keys.map((key) => key.slice(CACHE_PREFIX.length));
+    },
+  };
+}
+
+/**
+ * Select the query cache backend from CACHE_BACKEND ("memory" by default, or "storage")
+ */
+export function configureCache(): void {
+  const backend = (process.env.CACHE_BACKEND || "memory").toLowerCase();
+
+  switch (backend) {
+    case "memory":
+      setCacheBackend(null);
+      break;
+    case "storage":
+      setCacheBackend(createStorageCacheBackend());
+      break;
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${backend}". Expected "memory" or "storage"`);
+  }
+  console.log(`[CACHE] Using ${backend} query cache`);
+}
@@ -0,0 +1,229 @@
+import {
+  getWalletUnclaimedWinnings,
+  UnclaimedWinning,
+} from "../lib/for-wenbo-main/queries/wallet";
+import { getStorage } from "./storage";
+import { getTrackedWallets, TrackedWallet, walletDisplayName } from "./tracked-wallets";
+import { formatCurrency, formatDuration, formatWalletField } from "./format";
+import { buildIdempotencyKey, notify } from "./notifier";
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+// How often a position still to be claimed is reminded about
+const REMINDER_INTERVAL_HOURS = parseInt(process.env.CLAIM_REMINDER_INTERVAL_HOURS || "") || 24;
+const REMINDER_INTERVAL_MS = REMINDER_INTERVAL_HOURS * 60 * 60 * 1000;
+
+/**
+ * When each unclaimed position of a wallet was last reminded about
+ * Positions drop out once claimed, so a later unclaimed balance starts over
+ */
+interface ClaimReminderState {
+  reminded: Record<string, string>; // positionKey -> ISO timestamp
+}
+
+export interface ClaimReminderResult {
+  wallet: string;
+  status: "reminded" | "not-due" | "nothing-to-claim" | "failed";
+  unclaimed?: number; // Positions still to be claimed
+  reminded?: number; // Positions included in the reminder
+  value?: number; // Value of the positions still to be claimed
+  error?: string;
+}
+
+function reminderStateKey(walletAddress: string): string {
+  return `claim-reminders:${walletAddress.toLowerCase()}`;
+}
+
+function positionKey(winning: UnclaimedWinning): string {
+  return `${winning.market_address.toLowerCase()}-${winning.token_id}`;
+}
+
+/**
+ * Format one unclaimed position for a reminder
+ */
+function formatWinning(winning: UnclaimedWinning): string {
+  const marketShort = `${winning.market_address.slice(0, 6)}...${winning.market_address.slice(-4)}`;
+  const token = winning.symbol
+    ? `${winning.symbol} (Token: ${winning.token_id})`
+    : `Token ${winning.token_id}`;
+
+  return `*${winning.title || marketShort}* (\`${winning.market_address}\`)
+   ${token}: Qty ${winning.quantity.toFixed(4)} @ $${winning.payout_per_token.toFixed(4)} = *${formatCurrency(winning.value)}*
+   Unclaimed for ${formatDuration(winning.unclaimed_for_ms)} (resolved ${new Date(winning.resolved_at).toISOString().slice(0, 16).replace("T", " ")} UTC)`;
+}
+
+/**
+ * Send a reminder listing the positions that are due
+ */
+async function sendClaimReminder(
+  wallet: TrackedWallet,
+  due: UnclaimedWinning[],
+  state: ClaimReminderState,
+  totalValue: number
+): Promise<void> {
+  const dueValue = due.reduce((sum, w) => sum + w.value, 0);
+  // Same positions and previous reminders: same key, so a retried run is not sent twice
+  const idempotencyKey = buildIdempotencyKey("wallet.unclaimed", [
+    wallet.address.toLowerCase(),
+    ...due.map((w) => `${positionKey(w)}@${state.reminded[positionKey(w)] || "resolved"}`),
+  ]);
+
+  await notify(
+    {
+      event: "wallet.unclaimed",
+      title: "⏰ Winnings Still to Claim",
+      summary: `⏰ ${due.length} winning position(s) still to claim - ${walletDisplayName(wallet)} (${formatCurrency(dueValue)})`,
+      blocks: [
+        {
+          type: "fields",
+          fields: [
+            formatWalletField(wallet),
+            `*Unclaimed Winnings:*\n*${formatCurrency(totalValue)}*`,
+          ],
+        },
+        { type: "divider" },
+        ...due.map((winning) => ({
+          type: "text" as const,
+          text: formatWinning(winning),
+        })),
+        {
+          type: "context",
+          text: `Repeats every ${REMINDER_INTERVAL_HOURS}h until the winnings are claimed`,
+        },
+      ],
+    },
+    { idempotencyKey }
+  );
+}
+
+/**
+ * Remind one wallet of the winning positions it has not claimed
+ * A position is due REMINDER_INTERVAL_HOURS after its market resolved, then again
+ * every REMINDER_INTERVAL_HOURS until its claim appears
+ */
+async function checkSingleWallet(wallet: TrackedWallet): Promise<ClaimReminderResult> {
+  const storage = await getStorage();
+  const key = reminderStateKey(wallet.address);
+  const state = (await storage.get<ClaimReminderState>(key)) || { reminded: {} };
+  const winnings = await getWalletUnclaimedWinnings(wallet.address);
+  const value = winnings.reduce((sum, w) => sum + w.value, 0);
+
+  if (winnings.length === 0) {
+    if (Object.keys(state.reminded).length > 0) {
+      await storage.delete(key);
+    }
+    return { wallet: wallet.address, status: "nothing-to-claim", unclaimed: 0, value: 0 };
+  }
+
+  const now = Date.now();
+  const due = winnings.filter((winning) => {
+    const last = state.reminded[positionKey(winning)] || winning.resolved_at;
+    return now - new Date(last).getTime() >= REMINDER_INTERVAL_MS;
+  });
+
+  // Forget positions that have been claimed since the last run
+  const reminded: Record<string, string> = {};
+  for (const winning of winnings) {
+    const last = state.reminded[positionKey(winning)];
+    if (last) {
+      reminded[positionKey(winning)] = last;
+    }
+  }
+
+  if (due.length === 0) {
+    await storage.set<ClaimReminderState>(key, { reminded });
+    return { wallet: wallet.address, status: "not-due", unclaimed: winnings.length, value };
+  }
+
+  console.log(`[CLAIM REMINDERS] ${due.length} position(s) due for a reminder for ${wallet.address}`);
+
+  await sendClaimReminder(wallet, due, state, value);
+
+  // Only record the reminder once it is queued in the outbox
+  const remindedAt = new Date(now).toISOString();
+  for (const winning of due) {
+    reminded[positionKey(winning)] = remindedAt;
+  }
+  await storage.set<ClaimReminderState>(key, { reminded });
+
+  return {
+    wallet: wallet.address,
+    status: "reminded",
+    unclaimed: winnings.length,
+    reminded: due.length,
+    value,
+  };
+}
+
+/**
+ * Send claim reminders for every enabled tracked wallet
+ * A failing wallet is recorded in the results and does not stop the others
+ */
+export async function checkClaimReminders(): Promise<ClaimReminderResult[]> {
+  console.log("[CLAIM REMINDERS] Checking tracked wallets for unclaimed winnings...");
+
+  const wallets = (await getTrackedWallets()).filter((w) => w.enabled);
+  const results: ClaimReminderResult[] = [];
+
+  for (const wallet of wallets) {
+    try {
+      results.push(await checkSingleWallet(wallet));
+    } catch (error) {
+      console.error(`[CLAIM REMINDERS] ❌ Error checking wallet ${wallet.address}:`, error);
+      results.push({
+        wallet: wallet.address,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const reminded = results.filter((r) => r.status === "reminded").length;
+  console.log(
+    `[CLAIM REMINDERS] Finished: reminded ${reminded} of ${wallets.length} wallet(s)`
+  );
+
+  return results;
+}
+
+let intervalId: NodeJS.Timeout | null = null;
+
+/**
+ * Start the claim reminder service
+ * Checks tracked wallets for reminders that are due every hour
+ */
+export function startClaimReminders(): void {
+  if (intervalId) {
+    console.log("Claim reminders are already running");
+    return;
+  }
+
+  console.log(
+    `Starting claim reminder service (checking every hour, reminding every ${REMINDER_INTERVAL_HOURS}h)`
+  );
+
+  // Run immediately on start
+  checkClaimReminders().catch((error) => {
+    console.error("Initial claim reminder check failed:", error);
+  });
+
+  // Then run every hour
+  intervalId = setInterval(() => {
+    checkClaimReminders().catch((error) => {
+      console.error("Claim reminder check failed:", error);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log("Claim reminder service started");
+}
+
+/**
+ * Stop the claim reminder service
+ */
+export function stopClaimReminders(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("Claim reminder service stopped");
+  }
+}
@@ -0,0 +1,81 @@
+import { WalletPosition } from "../lib/for-wenbo-main/queries/wallet";
+import { TrackedWallet } from "./tracked-wallets";
+
+/**
+ * Format portfolio value for display
+ */
+export function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+/**
+ * Format a signed currency change, e.g. "+$12.00" or "-$3.50"
+ */
+export function formatCurrencyChange(value: number): string {
+  return `${value >= 0 ? "+" : "-"}${formatCurrency(Math.abs(value))}`;
+}
+
+/**
+ * Format a duration as its two largest units, e.g. "3d 4h", "5h 10m" or "12m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * Format the wallet field of a notification: label (if any) and full address
+ */
+export function formatWalletField(
+  wallet: Pick<TrackedWallet, "address" | "label">
+): string {
+  const label = wallet.label ? `*${wallet.label}*\n` : "";
+  return `*Wallet:*\n${label}\`${wallet.address}\``;
+}
+
+/**
+ * Format positions for a notification
+ */
+export function formatPositions(positions: WalletPosition[]): string {
+  if (positions.length === 0) {
+    return "_No active positions_";
+  }
+
+  // Limit to top 10 positions by value to avoid message being too long
+  const topPositions = [...positions]
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 10);
+
+  const positionTexts = topPositions.map((pos, index) => {
+    const marketShort = `${pos.market_address.slice(0, 6)}...${pos.market_address.slice(-4)}`;
+    const statusBadge = pos.is_resolved
+      ? pos.is_winning
+        ? "✅ Winning"
+        : "❌ Losing"
+      : "🔄 Active";
+    return `${index + 1}. *${marketShort}* (Token: ${pos.token_id})
+   Value: ${formatCurrency(pos.value)} | Qty: ${pos.quantity.toFixed(4)} | Price: $${pos.current_price.toFixed(4)} | Avg: $${pos.avg_price.toFixed(4)}
+   Realized: ${formatCurrencyChange(pos.realized_pnl)} | Unrealized: ${formatCurrencyChange(pos.unrealized_pnl)} | Status: ${statusBadge}`;
+  });
+
+  const remainingCount = positions.length - topPositions.length;
+  const remainingText =
+    remainingCount > 0
+      ? `\n_...and ${remainingCount} more position${remainingCount > 1 ? "s" : ""}_`
+      : "";
+
+  return positionTexts.join("\n\n") + remainingText;
+}
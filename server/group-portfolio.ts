@@ -0,0 +1,158 @@
+import {
+  getWalletPortfolioBreakdown,
+  getWalletPositions,
+  WalletPortfolioBreakdown,
+  WalletPosition,
+} from "../lib/for-wenbo-main/queries/wallet";
+import { getOrCreate } from "../lib/for-wenbo-main/queries/utils";
+import { TrackedWallet } from "./tracked-wallets";
+
+export interface GroupWalletSummary extends Partial<WalletPortfolioBreakdown> {
+  wallet: string;
+  label?: string;
+  error?: string;
+}
+
+/**
+ * Holdings of one outcome token summed across the wallets of a book
+ */
+export interface NettedToken {
+  token_id: string;
+  quantity: number;
+  value: number;
+  current_price: number;
+  is_resolved: boolean;
+  is_winning: boolean | null;
+  wallets: Array<{ wallet: string; label?: string; quantity: number; value: number }>;
+}
+
+export interface NettedMarket {
+  market_address: string;
+  value: number;
+  tokens: NettedToken[];
+}
+
+export interface GroupPortfolio {
+  wallets: GroupWalletSummary[];
+  totals: {
+    cash: number;
+    positions_value: number;
+    unclaimed_winnings: number;
+    losing_positions: number;
+    total: number;
+  };
+  markets: NettedMarket[];
+}
+
+export type GroupMember = Pick<TrackedWallet, "address" | "label">;
+
+interface MemberPositions {
+  wallet: GroupMember;
+  positions: WalletPosition[];
+}
+
+/**
+ * Sum positions by market and token across wallets
+ * Markets are sorted by total value, tokens by token id
+ */
+function netPositions(walletPositions: MemberPositions[]): NettedMarket[] {
+  const marketToTokens = new Map<string, Map<string, NettedToken>>();
+
+  for (const { wallet, positions } of walletPositions) {
+    for (const position of positions) {
+      const tokens = getOrCreate(
+        marketToTokens,
+        position.market_address.toLowerCase(),
+        () => new Map()
+      );
+      const token = getOrCreate(tokens, position.token_id, () => ({
+        token_id: position.token_id,
+        quantity: 0,
+        value: 0,
+        current_price: position.current_price,
+        is_resolved: position.is_resolved,
+        is_winning: position.is_winning,
+        wallets: [],
+      }));
+
+      token.quantity += position.quantity;
+      token.value += position.value;
+      token.wallets.push({
+        wallet: wallet.address,
+        label: wallet.label,
+        quantity: position.quantity,
+        value: position.value,
+      });
+    }
+  }
+
+  return Array.from(marketToTokens.entries())
+    .map(([market_address, tokens]) => {
+      const nettedTokens = Array.from(tokens.values()).sort((a, b) =>
+        BigInt(a.token_id) < BigInt(b.token_id) ? -1 : 1
+      );
+      return {
+        market_address,
+        value: nettedTokens.reduce((sum, t) => sum + t.value, 0),
+        tokens: nettedTokens,
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Combine several wallets into one book: summed cash, position value and
+ * unclaimed winnings, plus positions netted by market and token
+ * A wallet that fails to load is reported with an error and left out of the totals
+ */
+export async function getGroupPortfolio(
+  wallets: GroupMember[]
+): Promise<GroupPortfolio> {
+  const results = await Promise.all(
+    wallets.map(async (wallet) => {
+      try {
+        const [breakdown, positions] = await Promise.all([
+          getWalletPortfolioBreakdown(wallet.address),
+          getWalletPositions(wallet.address),
+        ]);
+        return { wallet, breakdown, positions };
+      } catch (error) {
+        console.error(`[GROUP PORTFOLIO] Error fetching wallet ${wallet.address}:`, error);
+        return {
+          wallet,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    })
+  );
+
+  const totals = { cash: 0, positions_value: 0, unclaimed_winnings: 0, losing_positions: 0, total: 0 };
+  const summaries: GroupWalletSummary[] = [];
+  const walletPositions: MemberPositions[] = [];
+
+  for (const result of results) {
+    if ("error" in result) {
+      summaries.push({
+        wallet: result.wallet.address,
+        label: result.wallet.label,
+        error: result.error,
+      });
+      continue;
+    }
+
+    const { breakdown } = result;
+    totals.cash += breakdown.cash ?? 0;
+    totals.positions_value += breakdown.positions_value;
+    totals.unclaimed_winnings += breakdown.unclaimed_winnings;
+    totals.losing_positions += breakdown.losing_positions;
+    totals.total += breakdown.total;
+    summaries.push({ wallet: result.wallet.address, label: result.wallet.label, ...breakdown });
+    walletPositions.push({ wallet: result.wallet, positions: result.positions });
+  }
+
+  return {
+    wallets: summaries,
+    totals,
+    markets: netPositions(walletPositions),
+  };
+}
@@ -1,19 +1,61 @@
 import express from "express";
 import cors from "cors";
-import fs from "fs/promises";
 import path from "path";
-import { getWalletPortfolio, getWalletPositions } from "../lib/for-wenbo-main/queries/wallet";
+import { waitUntil } from "@vercel/functions";
+import {
+  getWalletPortfolioBreakdown,
+  getWalletPositions,
+  getWalletPositionTotals,
+  getWalletUnclaimedWinnings,
+} from "../lib/for-wenbo-main/queries/wallet";
 import { getMarketsWithMetrics } from "../lib/for-wenbo-main/queries/market";
 import { startMarketMonitoring } from "./market-monitor";
 import { startWalletMonitoring } from "./wallet-monitor";
+import { startResolutionMonitoring } from "./resolution-monitor";
+import { startPriceMonitoring } from "./price-monitor";
+import { startClaimReminders } from "./claim-reminders";
+import {
+  createPriceRule,
+  getPriceRules,
+  parsePriceRule,
+  savePriceRules,
+} from "./price-rules";
 import { sendSlackTestMessage } from "./slack-test";
+import {
+  DEFAULT_INTERVAL_MINUTES,
+  filterTrackedWallets,
+  getTrackedWallets,
+  parseTrackedWalletUpdate,
+  saveTrackedWallets,
+  TrackedWallet,
+  TrackedWalletFilter,
+} from "./tracked-wallets";
+import { getWalletHistory, parseInterval } from "./wallet-history";
+import { describeStorage } from "./storage";
+import {
+  describeNotifier,
+  DeliveryStatus,
+  flushOutbox,
+  listOutbox,
+  startOutboxWorker,
+} from "./notifier";
+import { runSlashCommand, SlashCommandResponse, verifySlackSignature } from "./slack-commands";
+import { getGroupPortfolio, GroupMember } from "./group-portfolio";
+import { simulateMarketResolution, simulatePortfolioResolutions } from "./resolution-simulator";
+import { getWalletRisk } from "./risk";
+import { configureCache } from "./cache-store";
+import { getCacheStats, invalidateCache } from "../lib/for-wenbo-main/cache";
+import { sendUpstreamError } from "./upstream-error";
+import { HASURA_UPSTREAM } from "../lib/for-wenbo-main/gql";
+import { RPC_UPSTREAM } from "../lib/for-wenbo-main/evm";
+import { describeLedgerStream } from "./ledger-stream";
+import { startRealtimeAlerts } from "./realtime-alerts";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
-// Use /tmp for serverless environments (Vercel), fallback to __dirname for local
-const TRACKED_WALLETS_FILE = process.env.VERCEL 
-  ? "/tmp/tracked-wallets.json"
-  : path.join(__dirname, "tracked-wallets.json");
+
+// Select the query cache backend (CACHE_BACKEND)
+configureCache();
 
 app.use(cors());
 app.use(express.json());
@@ -30,32 +72,67 @@ app.get("/", (req, res) => {
   res.sendFile(path.join(frontendPath, "index.html"));
 });
 
-// Ensure tracked wallets file exists
-async function ensureTrackedWalletsFile() {
-  try {
-    await fs.access(TRACKED_WALLETS_FILE);
-  } catch {
-    await fs.writeFile(TRACKED_WALLETS_FILE, JSON.stringify([]), "utf-8");
-  }
+// Read the optional tag/group filters from a query string
+function parseWalletFilter(query: express.Request["query"]): TrackedWalletFilter {
+  return {
+    tag: typeof query.tag === "string" && query.tag ? query.tag : undefined,
+    group: typeof query.group === "string" && query.group ? query.group : undefined,
+  };
 }
 
-// Read tracked wallets
-async function getTrackedWallets(): Promise<string[]> {
-  await ensureTrackedWalletsFile();
-  const data = await fs.readFile(TRACKED_WALLETS_FILE, "utf-8");
-  return JSON.parse(data);
+// Read an optional ISO timestamp or epoch milliseconds from a query string
+// Returns undefined when absent and null when unparseable
+function parseTimestamp(value: unknown): Date | undefined | null {
+  if (value === undefined) return undefined;
+  const raw = String(value);
+  const date = /^\d+$/.test(raw) ? new Date(Number(raw)) : new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
 }
 
-// Write tracked wallets
-async function saveTrackedWallets(wallets: string[]): Promise<void> {
-  await ensureTrackedWalletsFile();
-  await fs.writeFile(TRACKED_WALLETS_FILE, JSON.stringify(wallets, null, 2), "utf-8");
+// Resolve the wallets of a book from the group, tag and addresses query params
+// Returns the members, or the status and body of the error response
+async function resolveBook(
+  query: express.Request["query"]
+): Promise<{ members: GroupMember[] } | { status: number; body: Record<string, unknown> }> {
+  const filter = parseWalletFilter(query);
+  const addresses =
+    typeof query.addresses === "string" && query.addresses
+      ? query.addresses.split(",").map((a) => a.trim().toLowerCase())
+      : [];
+
+  if (!filter.group && !filter.tag && addresses.length === 0) {
+    return { status: 400, body: { error: "group, tag or addresses is required" } };
+  }
+
+  const invalid = addresses.filter((a) => !/^0x[a-fA-F0-9]{40}$/.test(a));
+  if (invalid.length > 0) {
+    return { status: 400, body: { error: "Invalid wallet address format", addresses: invalid } };
+  }
+
+  // Listed addresses don't need to be tracked, but pick up their labels if they are
+  const trackedWallets = await getTrackedWallets();
+  const members = new Map<string, GroupMember>();
+  if (filter.group || filter.tag) {
+    for (const wallet of filterTrackedWallets(trackedWallets, filter)) {
+      members.set(wallet.address, wallet);
+    }
+  }
+  for (const address of addresses) {
+    const tracked = trackedWallets.find((w) => w.address === address);
+    members.set(address, tracked || { address });
+  }
+
+  if (members.size === 0) {
+    return { status: 404, body: { error: "No wallets match the given group or tag" } };
+  }
+  return { members: Array.from(members.values()) };
 }
 
 // Get all tracked wallets
+// Query params: tag, group (optional filters)
 app.get("/api/tracked-wallets", async (req, res) => {
   try {
-    const wallets = await getTrackedWallets();
+    const wallets = filterTrackedWallets(await getTrackedWallets(), parseWalletFilter(req.query));
     res.json({ wallets });
   } catch (error) {
     console.error("Error fetching tracked wallets:", error);
@@ -63,6 +140,22 @@ app.get("/api/tracked-wallets", async (req, res) => {
   }
 });
 
+// Get a single tracked wallet
+// The address pattern keeps this from matching /api/tracked-wallets/portfolio and /positions
+app.get("/api/tracked-wallets/:walletAddress(0x[a-fA-F0-9]{40})", async (req, res) => {
+  try {
+    const wallets = await getTrackedWallets();
+    const wallet = wallets.find((w) => w.address === req.params.walletAddress.toLowerCase());
+    if (!wallet) {
+      return res.status(404).json({ error: "Wallet not found" });
+    }
+    res.json({ wallet });
+  } catch (error) {
+    console.error("Error fetching tracked wallet:", error);
+    res.status(500).json({ error: "Failed to fetch tracked wallet" });
+  }
+});
+
 // Add a tracked wallet
 app.post("/api/tracked-wallets", async (req, res) => {
   try {
@@ -77,23 +170,61 @@ app.post("/api/tracked-wallets", async (req, res) => {
       return res.status(400).json({ error: "Invalid wallet address format" });
     }
 
+    const parsed = parseTrackedWalletUpdate(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
     const wallets = await getTrackedWallets();
     const normalizedAddress = walletAddress.toLowerCase();
 
-    if (wallets.includes(normalizedAddress)) {
+    if (wallets.some((w) => w.address === normalizedAddress)) {
       return res.status(400).json({ error: "Wallet already tracked" });
     }
 
-    wallets.push(normalizedAddress);
+    const wallet: TrackedWallet = {
+      address: normalizedAddress,
+      tags: [],
+      enabled: true,
+      intervalMinutes: DEFAULT_INTERVAL_MINUTES,
+      ...parsed.update,
+    };
+    wallets.push(wallet);
     await saveTrackedWallets(wallets);
 
-    res.json({ success: true, wallet: normalizedAddress });
+    res.json({ success: true, wallet });
   } catch (error) {
     console.error("Error adding tracked wallet:", error);
     res.status(500).json({ error: "Failed to add tracked wallet" });
   }
 });
 
+// Update label, tags, group, notes or monitoring settings of a tracked wallet
+app.patch("/api/tracked-wallets/:walletAddress", async (req, res) => {
+  try {
+    const { walletAddress } = req.params;
+
+    const parsed = parseTrackedWalletUpdate(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const wallets = await getTrackedWallets();
+    const wallet = wallets.find((w) => w.address === walletAddress.toLowerCase());
+    if (!wallet) {
+      return res.status(404).json({ error: "Wallet not found" });
+    }
+
+    Object.assign(wallet, parsed.update);
+    await saveTrackedWallets(wallets);
+
+    res.json({ success: true, wallet });
+  } catch (error) {
+    console.error("Error updating tracked wallet:", error);
+    res.status(500).json({ error: "Failed to update tracked wallet" });
+  }
+});
+
 // Remove a tracked wallet
 app.delete("/api/tracked-wallets/:walletAddress", async (req, res) => {
   try {
@@ -101,7 +232,7 @@ app.delete("/api/tracked-wallets/:walletAddress", async (req, res) => {
     const wallets = await getTrackedWallets();
     const normalizedAddress = walletAddress.toLowerCase();
 
-    const index = wallets.indexOf(normalizedAddress);
+    const index = wallets.findIndex((w) => w.address === normalizedAddress);
     if (index === -1) {
       return res.status(404).json({ error: "Wallet not found" });
     }
@@ -117,6 +248,7 @@ app.delete("/api/tracked-wallets/:walletAddress", async (req, res) => {
 });
 
 // Get portfolio for a specific wallet
+// Query params: asOf (optional ISO timestamp or epoch ms; value the wallet as it was then)
 app.get("/api/wallet/:walletAddress/portfolio", async (req, res) => {
   try {
     const { walletAddress } = req.params;
@@ -127,6 +259,14 @@ app.get("/api/wallet/:walletAddress/portfolio", async (req, res) => {
       return res.status(400).json({ error: "Invalid wallet address format" });
     }
 
+    const asOf = parseTimestamp(req.query.asOf);
+    if (asOf === null) {
+      return res.status(400).json({ error: "asOf must be an ISO timestamp or epoch milliseconds" });
+    }
+    if (asOf && asOf.getTime() > Date.now()) {
+      return res.status(400).json({ error: "asOf must not be in the future" });
+    }
+
     // Check if GraphQL endpoint is configured
     const gqlEndpoint = process.env.NEXT_PUBLIC_HASURA_GQL_ENDPOINT || process.env.HASURA_GQL_ENDPOINT;
     if (!gqlEndpoint) {
@@ -139,11 +279,17 @@ app.get("/api/wallet/:walletAddress/portfolio", async (req, res) => {
     }
 
     console.log(`[API] Fetching portfolio for ${walletAddress}...`);
-    const portfolio = await getWalletPortfolio(walletAddress);
-    console.log(`[API] ✅ Portfolio fetched: $${portfolio.toFixed(2)}`);
-    res.json({ walletAddress, portfolio });
+    const portfolio = await getWalletPortfolioBreakdown(walletAddress, { asOf });
+    console.log(`[API] ✅ Portfolio fetched: $${portfolio.total.toFixed(2)}`);
+    for (const warning of portfolio.warnings) {
+      console.warn(`[API] ⚠️ ${walletAddress}: ${warning}`);
+    }
+    res.json({ walletAddress, asOf: asOf?.toISOString() ?? null, portfolio });
   } catch (error) {
     console.error("[API] ❌ Error fetching portfolio:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
     if (error instanceof Error) {
       console.error("[API] Error message:", error.message);
       console.error("[API] Error stack:", error.stack);
@@ -168,6 +314,7 @@ app.get("/api/wallet/:walletAddress/portfolio", async (req, res) => {
 });
 
 // Get positions for a specific wallet
+// Query params: asOf (optional ISO timestamp or epoch ms; positions as they were then)
 app.get("/api/wallet/:walletAddress/positions", async (req, res) => {
   try {
     const { walletAddress } = req.params;
@@ -178,6 +325,14 @@ app.get("/api/wallet/:walletAddress/positions", async (req, res) => {
       return res.status(400).json({ error: "Invalid wallet address format" });
     }
 
+    const asOf = parseTimestamp(req.query.asOf);
+    if (asOf === null) {
+      return res.status(400).json({ error: "asOf must be an ISO timestamp or epoch milliseconds" });
+    }
+    if (asOf && asOf.getTime() > Date.now()) {
+      return res.status(400).json({ error: "asOf must not be in the future" });
+    }
+
     // Check if GraphQL endpoint is configured
     const gqlEndpoint = process.env.NEXT_PUBLIC_HASURA_GQL_ENDPOINT || process.env.HASURA_GQL_ENDPOINT;
     if (!gqlEndpoint) {
@@ -190,11 +345,22 @@ app.get("/api/wallet/:walletAddress/positions", async (req, res) => {
     }
 
     console.log(`[API] Fetching positions for ${walletAddress}...`);
-    const positions = await getWalletPositions(walletAddress);
+    const [positions, totals] = await Promise.all([
+      getWalletPositions(walletAddress, { asOf }),
+      getWalletPositionTotals(walletAddress, { asOf }),
+    ]);
     console.log(`[API] ✅ Positions fetched: ${positions.length} positions`);
-    res.json({ walletAddress, positions });
+    res.json({
+      walletAddress,
+      asOf: asOf?.toISOString() ?? null,
+      positions,
+      totals,
+    });
   } catch (error) {
     console.error("[API] ❌ Error fetching positions:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
     if (error instanceof Error) {
       console.error("[API] Error message:", error.message);
       console.error("[API] Error stack:", error.stack);
@@ -218,18 +384,114 @@ app.get("/api/wallet/:walletAddress/positions", async (req, res) => {
   }
 });
 
+// Get portfolio snapshot history for a specific wallet
+// Query params: from, to (ISO timestamps or epoch ms), interval (e.g. 15m, 1h, 1d)
+app.get("/api/wallet/:walletAddress/history", async (req, res) => {
+  try {
+    const { walletAddress } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return res.status(400).json({ error: "Invalid wallet address format" });
+    }
+
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: "from and to must be ISO timestamps or epoch milliseconds" });
+    }
+
+    let intervalMs: number | undefined;
+    if (req.query.interval !== undefined) {
+      const parsed = parseInterval(String(req.query.interval));
+      if (parsed === null) {
+        return res.status(400).json({ error: "interval must look like 15m, 1h or 1d" });
+      }
+      intervalMs = parsed;
+    }
+
+    const history = await getWalletHistory(walletAddress, { from, to, intervalMs });
+    res.json({
+      walletAddress,
+      from: from?.toISOString() ?? null,
+      to: to?.toISOString() ?? null,
+      interval: req.query.interval ?? null,
+      count: history.length,
+      history,
+    });
+  } catch (error) {
+    console.error("Error fetching wallet history:", error);
+    res.status(500).json({
+      error: "Failed to fetch wallet history",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Get concentration and exposure risk for a specific wallet
+app.get("/api/wallet/:walletAddress/risk", async (req, res) => {
+  try {
+    const { walletAddress } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return res.status(400).json({ error: "Invalid wallet address format" });
+    }
+
+    console.log(`[API] Building risk report for ${walletAddress}...`);
+    const risk = await getWalletRisk(walletAddress);
+    console.log(`[API] ✅ Risk report built: ${risk.breaches.length} limit breach(es)`);
+    res.json({ walletAddress, risk });
+  } catch (error) {
+    console.error("[API] ❌ Error building risk report:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      error: "Failed to build risk report",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Get the winning positions a wallet still has to claim
+app.get("/api/wallet/:walletAddress/unclaimed", async (req, res) => {
+  try {
+    const { walletAddress } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return res.status(400).json({ error: "Invalid wallet address format" });
+    }
+
+    const winnings = await getWalletUnclaimedWinnings(walletAddress);
+    res.json({
+      walletAddress,
+      total: winnings.reduce((sum, w) => sum + w.value, 0),
+      winnings,
+    });
+  } catch (error) {
+    console.error("Error fetching unclaimed winnings:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      error: "Failed to fetch unclaimed winnings",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
 // Get portfolio and positions for all tracked wallets
+// Query params: tag, group (optional filters)
 app.get("/api/tracked-wallets/portfolio", async (req, res) => {
   try {
-    const wallets = await getTrackedWallets();
+    const wallets = filterTrackedWallets(await getTrackedWallets(), parseWalletFilter(req.query));
     const results = await Promise.all(
-      wallets.map(async (wallet) => {
+      wallets.map(async ({ address: wallet, label, tags, group }) => {
         try {
-          const portfolio = await getWalletPortfolio(wallet);
-          return { wallet, portfolio };
+          const portfolio = await getWalletPortfolioBreakdown(wallet);
+          return { wallet, label, tags, group, portfolio };
         } catch (error) {
           console.error(`Error fetching portfolio for ${wallet}:`, error);
-          return { wallet, portfolio: 0, error: "Failed to fetch" };
+          return { wallet, label, tags, group, portfolio: null, error: "Failed to fetch" };
         }
       })
     );
@@ -242,17 +504,21 @@ app.get("/api/tracked-wallets/portfolio", async (req, res) => {
 });
 
 // Get positions for all tracked wallets
+// Query params: tag, group (optional filters)
 app.get("/api/tracked-wallets/positions", async (req, res) => {
   try {
-    const wallets = await getTrackedWallets();
+    const wallets = filterTrackedWallets(await getTrackedWallets(), parseWalletFilter(req.query));
     const results = await Promise.all(
-      wallets.map(async (wallet) => {
+      wallets.map(async ({ address: wallet, label, tags, group }) => {
         try {
-          const positions = await getWalletPositions(wallet);
-          return { wallet, positions };
+          const [positions, totals] = await Promise.all([
+            getWalletPositions(wallet),
+            getWalletPositionTotals(wallet),
+          ]);
+          return { wallet, label, tags, group, positions, totals };
         } catch (error) {
           console.error(`Error fetching positions for ${wallet}:`, error);
-          return { wallet, positions: [], error: "Failed to fetch" };
+          return { wallet, label, tags, group, positions: [], error: "Failed to fetch" };
         }
       })
     );
@@ -264,6 +530,103 @@ app.get("/api/tracked-wallets/positions", async (req, res) => {
   }
 });
 
+// Get the winning positions still to be claimed for all tracked wallets
+// Query params: tag, group (optional filters)
+app.get("/api/tracked-wallets/unclaimed", async (req, res) => {
+  try {
+    const wallets = filterTrackedWallets(await getTrackedWallets(), parseWalletFilter(req.query));
+    const results = await Promise.all(
+      wallets.map(async ({ address: wallet, label, tags, group }) => {
+        try {
+          const winnings = await getWalletUnclaimedWinnings(wallet);
+          const total = winnings.reduce((sum, w) => sum + w.value, 0);
+          return { wallet, label, tags, group, total, winnings };
+        } catch (error) {
+          console.error(`Error fetching unclaimed winnings for ${wallet}:`, error);
+          return { wallet, label, tags, group, total: null, winnings: [], error: "Failed to fetch" };
+        }
+      })
+    );
+
+    res.json({
+      total: results.reduce((sum, r) => sum + (r.total ?? 0), 0),
+      results,
+    });
+  } catch (error) {
+    console.error("Error fetching tracked wallets unclaimed winnings:", error);
+    res.status(500).json({ error: "Failed to fetch tracked wallets unclaimed winnings" });
+  }
+});
+
+// Get one combined portfolio for several wallets run as a single book
+// Query params: group, tag, or addresses (comma-separated); at least one is required
+app.get("/api/portfolio/aggregate", async (req, res) => {
+  try {
+    const filter = parseWalletFilter(req.query);
+    const book = await resolveBook(req.query);
+    if ("status" in book) {
+      return res.status(book.status).json(book.body);
+    }
+
+    console.log(`[API] Aggregating portfolio for ${book.members.length} wallet(s)...`);
+    const portfolio = await getGroupPortfolio(book.members);
+    console.log(`[API] ✅ Aggregate portfolio: $${portfolio.totals.total.toFixed(2)}`);
+    res.json({
+      group: filter.group ?? null,
+      tag: filter.tag ?? null,
+      ...portfolio,
+    });
+  } catch (error) {
+    console.error("[API] ❌ Error aggregating portfolio:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      error: "Failed to aggregate portfolio",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Simulate how a market's resolution would change the value of a book
+// Query params: group, tag, addresses (as for /api/portfolio/aggregate),
+// market (optional; without it, the best and worst case of every open market held)
+app.get("/api/simulate/resolution", async (req, res) => {
+  try {
+    const market = typeof req.query.market === "string" ? req.query.market : undefined;
+    if (market !== undefined && !/^0x[a-fA-F0-9]{40}$/.test(market)) {
+      return res.status(400).json({ error: "Invalid market address format" });
+    }
+
+    const book = await resolveBook(req.query);
+    if ("status" in book) {
+      return res.status(book.status).json(book.body);
+    }
+
+    if (!market) {
+      console.log(`[API] Simulating resolutions of open markets for ${book.members.length} wallet(s)...`);
+      const simulation = await simulatePortfolioResolutions(book.members);
+      return res.json({ wallets: book.members.map((m) => m.address), ...simulation });
+    }
+
+    console.log(`[API] Simulating resolution of ${market} for ${book.members.length} wallet(s)...`);
+    const simulation = await simulateMarketResolution(book.members, market);
+    if (!simulation) {
+      return res.status(404).json({ error: "Market not found or already resolved" });
+    }
+    res.json({ wallets: book.members.map((m) => m.address), ...simulation });
+  } catch (error) {
+    console.error("[API] ❌ Error simulating resolution:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      error: "Failed to simulate resolution",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
 // Get all unresolved markets with metrics
 app.get("/api/markets/unresolved", async (req, res) => {
   try {
@@ -273,6 +636,9 @@ app.get("/api/markets/unresolved", async (req, res) => {
     res.json({ markets });
   } catch (error) {
     console.error("[API] ❌ Error fetching unresolved markets:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
     if (error instanceof Error) {
       console.error("[API] Error message:", error.message);
       console.error("[API] Error stack:", error.stack);
@@ -321,6 +687,9 @@ app.get("/api/markets/top-payoff-tokens", async (req, res) => {
     });
   } catch (error) {
     console.error("[API] ❌ Error fetching top payoff tokens:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
     if (error instanceof Error) {
       console.error("[API] Error message:", error.message);
       console.error("[API] Error stack:", error.stack);
@@ -342,6 +711,9 @@ app.post("/api/markets/check", async (req, res) => {
     res.json({ success: true, message: "Market check completed" });
   } catch (error) {
     console.error("Error checking markets:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to check markets",
       message: error instanceof Error ? error.message : "Unknown error"
@@ -352,11 +724,15 @@ app.post("/api/markets/check", async (req, res) => {
 // Wallet monitoring endpoint (can be called manually or by cron)
 app.post("/api/wallet/check", async (req, res) => {
   try {
+    // Manual checks report on every enabled wallet regardless of its interval
     const { checkWalletAndSendReport } = await import("./wallet-monitor");
-    await checkWalletAndSendReport();
-    res.json({ success: true, message: "Wallet check completed" });
+    const results = await checkWalletAndSendReport({ force: true });
+    res.json({ success: true, message: "Wallet check completed", results });
   } catch (error) {
     console.error("Error checking wallet:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
     res.status(500).json({ 
       error: "Failed to check wallet",
       message: error instanceof Error ? error.message : "Unknown error"
@@ -364,6 +740,134 @@ app.post("/api/wallet/check", async (req, res) => {
   }
 });
 
+// Resolution monitoring endpoint (can be called manually or by cron)
+app.post("/api/resolutions/check", async (req, res) => {
+  try {
+    const { checkForResolvedMarkets } = await import("./resolution-monitor");
+    const results = await checkForResolvedMarkets();
+    res.json({ success: true, message: "Resolution check completed", results });
+  } catch (error) {
+    console.error("Error checking resolutions:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      error: "Failed to check resolutions",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Claim reminder endpoint (can be called manually or by cron)
+app.post("/api/claims/remind", async (req, res) => {
+  try {
+    const { checkClaimReminders } = await import("./claim-reminders");
+    const results = await checkClaimReminders();
+    res.json({ success: true, message: "Claim reminder check completed", results });
+  } catch (error) {
+    console.error("Error checking claim reminders:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      error: "Failed to check claim reminders",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Get all price alert rules
+app.get("/api/price-rules", async (req, res) => {
+  try {
+    const rules = await getPriceRules();
+    res.json({ rules });
+  } catch (error) {
+    console.error("Error fetching price rules:", error);
+    res.status(500).json({ error: "Failed to fetch price rules" });
+  }
+});
+
+// Add a price alert rule
+app.post("/api/price-rules", async (req, res) => {
+  try {
+    const parsed = parsePriceRule(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const rules = await getPriceRules();
+    const rule = createPriceRule(parsed.rule);
+    rules.push(rule);
+    await savePriceRules(rules);
+
+    res.json({ success: true, rule });
+  } catch (error) {
+    console.error("Error adding price rule:", error);
+    res.status(500).json({ error: "Failed to add price rule" });
+  }
+});
+
+// Update a price alert rule
+app.patch("/api/price-rules/:ruleId", async (req, res) => {
+  try {
+    const rules = await getPriceRules();
+    const rule = rules.find((r) => r.id === req.params.ruleId);
+    if (!rule) {
+      return res.status(404).json({ error: "Rule not found" });
+    }
+
+    const parsed = parsePriceRule(req.body, rule);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    Object.assign(rule, parsed.rule);
+    await savePriceRules(rules);
+
+    res.json({ success: true, rule });
+  } catch (error) {
+    console.error("Error updating price rule:", error);
+    res.status(500).json({ error: "Failed to update price rule" });
+  }
+});
+
+// Remove a price alert rule
+app.delete("/api/price-rules/:ruleId", async (req, res) => {
+  try {
+    const rules = await getPriceRules();
+    const index = rules.findIndex((r) => r.id === req.params.ruleId);
+    if (index === -1) {
+      return res.status(404).json({ error: "Rule not found" });
+    }
+
+    rules.splice(index, 1);
+    await savePriceRules(rules);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error removing price rule:", error);
+    res.status(500).json({ error: "Failed to remove price rule" });
+  }
+});
+
+// Price monitoring endpoint (can be called manually or by cron)
+app.post("/api/prices/check", async (req, res) => {
+  try {
+    const { checkPriceMovements } = await import("./price-monitor");
+    const alerts = await checkPriceMovements();
+    res.json({ success: true, message: "Price check completed", alerts });
+  } catch (error) {
+    console.error("Error checking prices:", error);
+    if (sendUpstreamError(res, error)) {
+      return;
+    }
+    res.status(500).json({
+      error: "Failed to check prices",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
 // Test Slack notification endpoint
 app.post("/api/slack/test", async (req, res) => {
   console.log("[API] /api/slack/test endpoint called");
@@ -388,6 +892,156 @@ app.post("/api/slack/test", async (req, res) => {
   }
 });
 
+// Slack must receive a reply within 3 seconds; slower commands answer via response_url
+const SLASH_COMMAND_REPLY_MS = 2500;
+
+// Keep the exact bytes of the request body, which the Slack signature covers
+const slackFormParser = express.urlencoded({
+  extended: false,
+  verify: (req, res, buf) => {
+    (req as express.Request & { rawBody?: string }).rawBody = buf.toString("utf8");
+  },
+});
+
+// Slack slash command endpoint, e.g. "/42bot portfolio desk-main"
+app.post("/api/slack/commands", slackFormParser, async (req, res) => {
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+  if (!signingSecret) {
+    console.error("[SLACK COMMAND] ❌ SLACK_SIGNING_SECRET not configured");
+    return res.status(500).json({ error: "SLACK_SIGNING_SECRET not configured" });
+  }
+
+  const rawBody = (req as express.Request & { rawBody?: string }).rawBody || "";
+  const verified = verifySlackSignature(
+    signingSecret,
+    rawBody,
+    req.header("X-Slack-Request-Timestamp"),
+    req.header("X-Slack-Signature")
+  );
+  if (!verified) {
+    console.warn("[SLACK COMMAND] ⚠️ Rejected request with invalid signature");
+    return res.status(401).json({ error: "Invalid Slack signature" });
+  }
+
+  const text = typeof req.body.text === "string" ? req.body.text : "";
+  const responseUrl = typeof req.body.response_url === "string" ? req.body.response_url : "";
+  console.log(`[SLACK COMMAND] ${req.body.command || "command"} ${text}`);
+
+  const result = runSlashCommand(text).catch(
+    (error): SlashCommandResponse => {
+      console.error("[SLACK COMMAND] ❌ Error running command:", error);
+      return {
+        response_type: "ephemeral",
+        text: `❌ ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  );
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), SLASH_COMMAND_REPLY_MS);
+  });
+
+  const response = await Promise.race([result, timeout]);
+  clearTimeout(timer);
+  if (response) {
+    return res.json(response);
+  }
+
+  // Too slow to answer inline: acknowledge now and post the result when ready
+  if (!responseUrl.startsWith("https://hooks.slack.com/")) {
+    console.warn("[SLACK COMMAND] ⚠️ Missing or invalid response_url, dropping delayed reply");
+    return res.json({ response_type: "ephemeral", text: "⏳ Working on it..." });
+  }
+  const delayedReply = result
+    .then((response) =>
+      fetch(responseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...response, replace_original: true }),
+      })
+    )
+    .then((reply) => {
+      if (!reply.ok) {
+        console.error(`[SLACK COMMAND] ❌ Failed to post delayed reply: ${reply.status} ${reply.statusText}`);
+      }
+    })
+    .catch((error) => {
+      console.error("[SLACK COMMAND] ❌ Failed to post delayed reply:", error);
+    });
+  // Serverless functions can be frozen once the response is sent; keep this one
+  // alive until the delayed reply is posted (a no-op on the long-running server)
+  waitUntil(delayedReply);
+  res.json({ response_type: "ephemeral", text: "⏳ Working on it..." });
+});
+
+const OUTBOX_STATUSES: DeliveryStatus[] = ["pending", "sending", "delivered", "expired"];
+
+// List notification outbox entries, optionally filtered by ?status=pending|sending|delivered|expired
+app.get("/api/outbox", async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !OUTBOX_STATUSES.includes(status as DeliveryStatus)) {
+      return res.status(400).json({
+        error: `Invalid status. Expected one of: ${OUTBOX_STATUSES.join(", ")}`,
+      });
+    }
+
+    const entries = await listOutbox(status as DeliveryStatus | undefined);
+    res.json({ count: entries.length, entries });
+  } catch (error) {
+    console.error("Error listing outbox:", error);
+    res.status(500).json({
+      error: "Failed to list outbox",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Retry due notifications in the outbox now
+app.post("/api/outbox/flush", async (req, res) => {
+  try {
+    const result = await flushOutbox();
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error flushing outbox:", error);
+    res.status(500).json({
+      error: "Failed to flush outbox",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Query cache hit and miss counts per query type
+app.get("/api/cache/stats", (req, res) => {
+  res.json(getCacheStats());
+});
+
+// Drop cached query results: all of them, or one type (e.g. { "type": "market-metrics" })
+// Wallet types also take a wallet address (e.g. { "type": "wallet-positions", "wallet": "0x..." })
+app.post("/api/cache/invalidate", async (req, res) => {
+  try {
+    const { type, wallet } = req.body || {};
+    if (type !== undefined && typeof type !== "string") {
+      return res.status(400).json({ error: "type must be a string" });
+    }
+    if (wallet !== undefined && (typeof wallet !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(wallet))) {
+      return res.status(400).json({ error: "Invalid wallet address format" });
+    }
+    if (wallet && !type) {
+      return res.status(400).json({ error: "wallet requires a type" });
+    }
+
+    const removed = await invalidateCache(type, wallet ? [wallet.toLowerCase()] : undefined);
+    res.json({ success: true, removed });
+  } catch (error) {
+    console.error("Error invalidating cache:", error);
+    res.status(500).json({
+      error: "Failed to invalidate cache",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 // Debug endpoint to check environment
 app.get("/api/debug/env", (req, res) => {
   res.json({
@@ -396,6 +1050,20 @@ app.get("/api/debug/env", (req, res) => {
     hasGraphQLEndpoint: !!(process.env.NEXT_PUBLIC_HASURA_GQL_ENDPOINT || process.env.HASURA_GQL_ENDPOINT),
     graphQLEndpoint: process.env.NEXT_PUBLIC_HASURA_GQL_ENDPOINT || process.env.HASURA_GQL_ENDPOINT || "Not set (using default localhost:8080)",
     hasHasuraSecret: !!process.env.HASURA_ADMIN_SECRET,
+    hasSlackSigningSecret: !!process.env.SLACK_SIGNING_SECRET,
+    storage: describeStorage(),
+    upstreams: {
+      hasura: HASURA_UPSTREAM.describe(),
+      rpc: RPC_UPSTREAM.describe(),
+    },
+    ledgerStream: describeLedgerStream(),
+    notifier: (() => {
+      try {
+        return describeNotifier();
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : "Invalid notifier configuration" };
+      }
+    })(),
     isVercel: !!process.env.VERCEL,
     nodeEnv: process.env.NODE_ENV,
   });
@@ -415,6 +1083,18 @@ if (!isServerless && typeof require !== 'undefined' && require.main === module)
     startMarketMonitoring();
     // Start wallet monitoring (checks every 5 minutes)
     startWalletMonitoring();
+    // Start resolution monitoring (checks every 5 minutes)
+    startResolutionMonitoring();
+    // Start price monitoring (checks every 5 minutes)
+    startPriceMonitoring();
+    // Remind tracked wallets of unclaimed winnings (checks every hour)
+    startClaimReminders();
+    // Retry undelivered notifications (every minute)
+    startOutboxWorker();
+    // Alert within seconds of new ledger rows over a Hasura subscription (opt-in)
+    if (process.env.LEDGER_STREAM === "true") {
+      startRealtimeAlerts();
+    }
     
     // Send test message to Slack on deployment (only in production/Vercel)
     if (process.env.VERCEL || process.env.NODE_ENV === 'production') {
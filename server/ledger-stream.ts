@@ -0,0 +1,450 @@
+import { GQL_CLIENT_WS } from "../lib/for-wenbo-main/gql";
+import {
+  LedgerStreamRow,
+  paginateLedgerBlock,
+  subscribeLedger,
+} from "../lib/for-wenbo-main/queries/ledger-stream";
+import { getLatestLedgerTimestamp, getMarketsLiveBefore } from "../lib/for-wenbo-main/queries/markets";
+import { getStorage } from "./storage";
+
+const STREAM_CURSOR_KEY = "ledger-stream-cursor";
+
+// Rows per batch; a full batch triggers a resubscribe, see subscribe()
+const BATCH_SIZE = 100;
+
+// A batch inside one block doubles the next batch up to this; a larger block is read
+// with a paged query instead
+const MAX_BATCH_SIZE = parseInt(process.env.LEDGER_STREAM_MAX_BATCH_SIZE || "") || 3200;
+
+// Resubscribe delays double from 1 second up to 30 seconds
+const BASE_RESUBSCRIBE_MS = 1000;
+const MAX_RESUBSCRIBE_MS = 30 * 1000;
+
+/**
+ * Position of the stream: the newest row timestamp delivered, and the ids of
+ * the rows at exactly that timestamp, so a replayed batch is not delivered twice
+ * `complete` is set once that block was read in full by a paged query
+ */
+interface StreamCursor {
+  block_timestamp: string;
+  ids: string[];
+  complete?: boolean;
+}
+
+interface LedgerEventBase {
+  market_address: string;
+  block_timestamp: string;
+  row: LedgerStreamRow;
+}
+
+export interface TradeEvent extends LedgerEventBase {
+  kind: "trade";
+  user_address: string;
+  token_id: string;
+  quantity: number; // Outcome tokens bought (positive) or sold (negative)
+  collateral: number; // Collateral change of the trader
+}
+
+export interface ClaimEvent extends LedgerEventBase {
+  kind: "claim";
+  user_address: string;
+  token_id: string;
+  quantity: number;
+  collateral: number;
+}
+
+/**
+ * A market was finalised; sent once per market, not for every holder's burn row
+ */
+export interface FinaliseEvent extends LedgerEventBase {
+  kind: "finalise";
+  question_id: string | null;
+  title: string | null;
+}
+
+/**
+ * The first ledger row of a market; sent before the events of that row
+ */
+export interface NewMarketEvent extends LedgerEventBase {
+  kind: "new-market";
+  question_text: string | null;
+}
+
+export type LedgerEvent = TradeEvent | ClaimEvent | FinaliseEvent | NewMarketEvent;
+export type LedgerEventKind = LedgerEvent["kind"];
+export type LedgerEventHandler<K extends LedgerEventKind> = (
+  event: Extract<LedgerEvent, { kind: K }>
+) => void | Promise<void>;
+
+const handlers = new Map<LedgerEventKind, Set<(event: LedgerEvent) => void | Promise<void>>>();
+const eventCounts: Record<LedgerEventKind, number> = { trade: 0, claim: 0, finalise: 0, "new-market": 0 };
+
+// Markets seen by this process, so each is checked for being new only once
+const knownMarkets = new Set<string>();
+const finalisedMarkets = new Set<string>();
+
+let cursor: StreamCursor | null = null;
+let unsubscribe: (() => void) | null = null;
+let stopClosedListener: (() => void) | null = null;
+let resubscribeTimer: NodeJS.Timeout | null = null;
+let resubscribeAttempts = 0;
+let running = false;
+let batchSize = BATCH_SIZE;
+let processing: Promise<void> = Promise.resolve();
+let lastEventAt: string | null = null;
+
+/**
+ * Register a consumer for one kind of ledger event
+ * Handlers run in the stream's process; a failing handler is logged and does not affect others
+ * @returns a function that removes the handler
+ */
+export function onLedgerEvent<K extends LedgerEventKind>(
+  kind: K,
+  handler: LedgerEventHandler<K>
+): () => void {
+  let set = handlers.get(kind);
+  if (!set) {
+    set = new Set();
+    handlers.set(kind, set);
+  }
+  const entry = handler as (event: LedgerEvent) => void | Promise<void>;
+  set.add(entry);
+  return () => {
+    set!.delete(entry);
+  };
+}
+
+function emit(event: LedgerEvent): void {
+  eventCounts[event.kind]++;
+  lastEventAt = new Date().toISOString();
+  for (const handler of handlers.get(event.kind) || []) {
+    Promise.resolve()
+      .then(() => handler(event))
+      .catch((error) => {
+        console.error(`[LEDGER STREAM] ❌ ${event.kind} handler failed:`, error);
+      });
+  }
+}
+
+/**
+ * Turn a ledger row into its event
+ * Rows are classified by event_type: "finalise" burns, "claim" redemptions,
+ * and anything else is a trade
+ */
+function toEvent(row: LedgerStreamRow): LedgerEvent | null {
+  const base = { market_address: row.market_address, block_timestamp: row.block_timestamp, row };
+
+  switch (row.event_type) {
+    case "finalise": {
+      const market = row.market_address.toLowerCase();
+      if (finalisedMarkets.has(market)) {
+        return null;
+      }
+      finalisedMarkets.add(market);
+      return {
+        ...base,
+        kind: "finalise",
+        question_id: row.question?.id ?? null,
+        title: row.question?.title ?? null,
+      };
+    }
+    case "claim":
+      return {
+        ...base,
+        kind: "claim",
+        user_address: row.user_address,
+        token_id: row.token_id,
+        quantity: parseFloat(row.delta_quantity_hmr || "0"),
+        collateral: parseFloat(row.delta_collateral_hmr || "0"),
+      };
+    default:
+      return {
+        ...base,
+        kind: "trade",
+        user_address: row.user_address,
+        token_id: row.token_id,
+        quantity: parseFloat(row.delta_quantity_hmr || "0"),
+        collateral: parseFloat(row.delta_collateral_hmr || "0"),
+      };
+  }
+}
+
+/**
+ * Drop rows at or before the cursor; the stream replays rows after a reconnect,
+ * and every subscription starts just before the cursor's timestamp
+ */
+function selectFreshRows(rows: LedgerStreamRow[], current: StreamCursor): LedgerStreamRow[] {
+  const cursorTime = new Date(current.block_timestamp).getTime();
+  const seenIds = new Set(current.ids);
+  return rows.filter((row) => {
+    const time = new Date(row.block_timestamp).getTime();
+    return time > cursorTime || (time === cursorTime && !seenIds.has(row.id));
+  });
+}
+
+/**
+ * Find the markets whose first ledger row is in this batch
+ * On failure no market is reported; the market monitor's poll still announces them
+ */
+async function findNewMarkets(rows: LedgerStreamRow[], after: string): Promise<Set<string>> {
+  const candidates = Array.from(
+    new Set(rows.map((row) => row.market_address.toLowerCase()).filter((m) => !knownMarkets.has(m)))
+  );
+  if (candidates.length === 0) {
+    return new Set();
+  }
+
+  try {
+    const existing = await getMarketsLiveBefore(candidates, after);
+    for (const market of candidates) {
+      knownMarkets.add(market);
+    }
+    return new Set(candidates.filter((m) => !existing.has(m)));
+  } catch (error) {
+    console.error("[LEDGER STREAM] ❌ Failed to check for new markets:", error);
+    return new Set();
+  }
+}
+
+async function processBatch(rows: LedgerStreamRow[]): Promise<void> {
+  if (!cursor) {
+    return;
+  }
+
+  const fresh = selectFreshRows(rows, cursor);
+  if (fresh.length === 0) {
+    return;
+  }
+
+  const newMarkets = await findNewMarkets(fresh, cursor.block_timestamp);
+  for (const row of fresh) {
+    const market = row.market_address.toLowerCase();
+    if (newMarkets.delete(market)) {
+      emit({
+        kind: "new-market",
+        market_address: row.market_address,
+        block_timestamp: row.block_timestamp,
+        question_text: row.question?.question_text ?? null,
+        row,
+      });
+    }
+
+    const event = toEvent(row);
+    if (event) {
+      emit(event);
+    }
+  }
+
+  // Advance the cursor to the newest row, keeping every id at that timestamp
+  const last = fresh[fresh.length - 1];
+  const lastTime = new Date(last.block_timestamp).getTime();
+  const sameTime = new Date(cursor.block_timestamp).getTime() === lastTime ? cursor.ids : [];
+  cursor = {
+    block_timestamp: last.block_timestamp,
+    ids: [
+      ...sameTime,
+      ...fresh.filter((row) => new Date(row.block_timestamp).getTime() === lastTime).map((row) => row.id),
+    ],
+  };
+
+  await saveCursor(cursor);
+}
+
+/**
+ * Deliver every row of a block too large for a stream batch, with a paged query
+ * The cursor is then marked complete, so the next subscription starts after the block
+ */
+async function processBlock(blockTimestamp: string): Promise<void> {
+  for await (const rows of paginateLedgerBlock(blockTimestamp)) {
+    await processBatch(rows);
+  }
+
+  const blockTime = new Date(blockTimestamp).getTime();
+  if (cursor && new Date(cursor.block_timestamp).getTime() === blockTime) {
+    cursor = { ...cursor, complete: true };
+    await saveCursor(cursor);
+  }
+}
+
+async function saveCursor(current: StreamCursor): Promise<void> {
+  const storage = await getStorage();
+  await storage.set(STREAM_CURSOR_KEY, current).catch((error) => {
+    console.warn("[LEDGER STREAM] ⚠️ Failed to save cursor:", error);
+  });
+}
+
+/**
+ * A timestamp just before the given one, so a subscription from it includes
+ * every row at that timestamp (Hasura's cursor is exclusive)
+ */
+function justBefore(timestamp: string): string {
+  return new Date(new Date(timestamp).getTime() - 1).toISOString();
+}
+
+function subscribe(): void {
+  if (!cursor) {
+    return;
+  }
+
+  const size = batchSize;
+  console.log(`[LEDGER STREAM] Subscribing to ledger rows from ${cursor.block_timestamp}`);
+  unsubscribe = subscribeLedger(
+    // A block read in full is not asked for again
+    cursor.complete ? cursor.block_timestamp : justBefore(cursor.block_timestamp),
+    {
+      next: (rows) => {
+        resubscribeAttempts = 0;
+
+        // Hasura moves its cursor past the last timestamp of a full batch, which
+        // skips the rest of that block; restart from the new cursor instead and
+        // let the id dedupe drop the rows already delivered
+        const full = rows.length >= size;
+        let oversizedBlock: string | null = null;
+        if (full) {
+          const previous = unsubscribe;
+          unsubscribe = null;
+          previous?.();
+          // A batch inside a single block would be replayed forever, so widen the next one,
+          // or page through the block once the batch would grow past MAX_BATCH_SIZE
+          const lastTime = new Date(rows[rows.length - 1].block_timestamp).getTime();
+          const singleBlock = new Date(rows[0].block_timestamp).getTime() === lastTime;
+          if (singleBlock && size * 2 > MAX_BATCH_SIZE) {
+            oversizedBlock = rows[0].block_timestamp;
+            console.warn(
+              `[LEDGER STREAM] ⚠️ Block at ${oversizedBlock} fills a batch of ${size} rows, reading it with a paged query`
+            );
+          }
+          batchSize = singleBlock && !oversizedBlock ? size * 2 : BATCH_SIZE;
+        }
+
+        // Batches are processed one at a time, in order
+        processing = processing
+          .then(() => (oversizedBlock ? processBlock(oversizedBlock) : processBatch(rows)))
+          .catch((error) => {
+            console.error("[LEDGER STREAM] ❌ Failed to process batch:", error);
+          })
+          .then(() => {
+            if (full && running && !unsubscribe && !resubscribeTimer) {
+              subscribe();
+            }
+          });
+      },
+      error: (error) => {
+        console.error("[LEDGER STREAM] ❌ Subscription error:", error);
+        scheduleResubscribe();
+      },
+      complete: () => {
+        if (running && unsubscribe) {
+          console.warn("[LEDGER STREAM] ⚠️ Subscription completed by the server");
+          scheduleResubscribe();
+        }
+      },
+    },
+    size
+  );
+}
+
+/**
+ * Start a new subscription from the current cursor after a backoff delay
+ * The client would resubscribe on its own, but from the cursor it started with
+ */
+function scheduleResubscribe(): void {
+  if (!running || resubscribeTimer) {
+    return;
+  }
+
+  const previous = unsubscribe;
+  unsubscribe = null;
+  previous?.();
+
+  const delay = Math.min(BASE_RESUBSCRIBE_MS * 2 ** resubscribeAttempts, MAX_RESUBSCRIBE_MS);
+  resubscribeAttempts++;
+  resubscribeTimer = setTimeout(() => {
+    resubscribeTimer = null;
+    // Let in-flight batches move the cursor first
+    processing.then(() => {
+      if (running && !unsubscribe) {
+        subscribe();
+      }
+    });
+  }, delay);
+}
+
+/**
+ * Load the stored cursor, or start from the latest ledger row
+ */
+async function loadCursor(): Promise<StreamCursor> {
+  const storage = await getStorage();
+  const stored = await storage.get<StreamCursor>(STREAM_CURSOR_KEY);
+  if (stored) {
+    return stored;
+  }
+
+  const latest = await getLatestLedgerTimestamp();
+  return { block_timestamp: latest || new Date().toISOString(), ids: [] };
+}
+
+/**
+ * Start streaming ledger rows and fanning them out to the registered handlers
+ * Resumes from the stored cursor, so rows written while stopped are delivered on start
+ */
+export function startLedgerStream(): void {
+  if (running) {
+    console.log("Ledger stream is already running");
+    return;
+  }
+  running = true;
+
+  loadCursor()
+    .then((loaded) => {
+      if (!running) {
+        return;
+      }
+      cursor = loaded;
+      stopClosedListener = GQL_CLIENT_WS.on("closed", () => {
+        if (unsubscribe) {
+          scheduleResubscribe();
+        }
+      });
+      subscribe();
+      console.log("Ledger stream started");
+    })
+    .catch((error) => {
+      running = false;
+      console.error("[LEDGER STREAM] ❌ Failed to start:", error);
+    });
+}
+
+/**
+ * Stop the ledger stream
+ */
+export function stopLedgerStream(): void {
+  if (!running) {
+    return;
+  }
+  running = false;
+
+  if (resubscribeTimer) {
+    clearTimeout(resubscribeTimer);
+    resubscribeTimer = null;
+  }
+  stopClosedListener?.();
+  stopClosedListener = null;
+  const previous = unsubscribe;
+  unsubscribe = null;
+  previous?.();
+  console.log("Ledger stream stopped");
+}
+
+/**
+ * State of the ledger stream, for the debug endpoint
+ */
+export function describeLedgerStream() {
+  return {
+    running,
+    cursor: cursor?.block_timestamp ?? null,
+    subscribed: !!unsubscribe,
+    lastEventAt,
+    events: { ...eventCounts },
+  };
+}
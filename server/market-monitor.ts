@@ -1,178 +1,138 @@
-import fs from "fs/promises";
-import path from "path";
-import { getAllMarkets, Market } from "../lib/for-wenbo-main/queries/markets";
+import {
+  getLatestLedgerTimestamp,
+  getNewMarkets,
+  Market,
+} from "../lib/for-wenbo-main/queries/markets";
+import { buildIdempotencyKey, notify, NotifyResult } from "./notifier";
+import { getStorage } from "./storage";
 
-const KNOWN_MARKETS_FILE = process.env.VERCEL
-  ? "/tmp/known-markets.json"
-  : path.join(__dirname, "known-markets.json");
+const MARKET_CURSOR_KEY = "market-cursor";
+
+// Written by earlier versions, which kept every known market address
+const LEGACY_KNOWN_MARKETS_KEY = "known-markets";
 
 const CHECK_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
 
-interface KnownMarkets {
-  markets: string[]; // Array of market addresses
+interface MarketCursor {
+  cursor: string; // block_timestamp of the newest ledger row already announced
+  pendingUntil?: string; // End of a scanned range whose notification is not delivered yet
   lastCheck: string; // ISO timestamp of last check
 }
 
 /**
- * Load known markets from file
+ * Load the scan cursor from storage
+ * Falls back to the last check time of the legacy known-markets list, so
+ * upgrading does not miss markets created since that check
  */
-async function loadKnownMarkets(): Promise<KnownMarkets> {
-  try {
-    await fs.access(KNOWN_MARKETS_FILE);
-    const data = await fs.readFile(KNOWN_MARKETS_FILE, "utf-8");
-    return JSON.parse(data);
-  } catch {
-    // File doesn't exist, return empty state
-    return {
-      markets: [],
-      lastCheck: new Date().toISOString(),
-    };
+async function loadMarketCursor(): Promise<MarketCursor | null> {
+  const storage = await getStorage();
+  const cursor = await storage.get<MarketCursor>(MARKET_CURSOR_KEY);
+  if (cursor) {
+    return cursor;
+  }
+
+  const legacy = await storage.get<{ lastCheck?: string }>(LEGACY_KNOWN_MARKETS_KEY);
+  if (legacy?.lastCheck) {
+    console.log(`Resuming market detection from legacy last check ${legacy.lastCheck}`);
+    return { cursor: legacy.lastCheck, lastCheck: legacy.lastCheck };
   }
+
+  return null;
 }
 
 /**
- * Save known markets to file
+ * Save the scan cursor to storage and drop the legacy known-markets list
  */
-async function saveKnownMarkets(knownMarkets: KnownMarkets): Promise<void> {
-  await fs.writeFile(
-    KNOWN_MARKETS_FILE,
-    JSON.stringify(knownMarkets, null, 2),
-    "utf-8"
-  );
+async function saveMarketCursor(cursor: MarketCursor): Promise<void> {
+  const storage = await getStorage();
+  await storage.set(MARKET_CURSOR_KEY, cursor);
+  await storage.delete(LEGACY_KNOWN_MARKETS_KEY);
 }
 
 /**
- * Send notification to Slack
+ * Announce newly detected markets
+ * @param idempotencyKey - Identifies the scanned range, so it is announced once
  */
-async function sendSlackNotification(
-  slackWebhookUrl: string,
-  markets: Market[]
-): Promise<void> {
-  if (!slackWebhookUrl) {
-    console.warn("[SLACK MARKET] ⚠️ SLACK_WEBHOOK_URL not configured, skipping notification");
-    return;
-  }
-  
-  // Validate webhook URL format
-  if (!slackWebhookUrl.startsWith("https://hooks.slack.com/services/")) {
-    console.warn(`[SLACK MARKET] ⚠️ Invalid webhook URL format. Expected to start with 'https://hooks.slack.com/services/'`);
-    console.warn(`[SLACK MARKET] Current URL: ${slackWebhookUrl.substring(0, 50)}...`);
-    throw new Error("Invalid Slack webhook URL format. Must start with 'https://hooks.slack.com/services/'");
-  }
-  
-  console.log(`[SLACK MARKET] Preparing market notification for ${markets.length} market(s)...`);
-
-  const blocks = markets.map((market) => ({
-    type: "section",
-    text: {
-      type: "mrkdwn",
-      text: `*New Market Detected!*\n*Address:* \`${market.market_address}\`\n*Question:* ${market.question_text || "N/A"}\n*Created:* ${market.block_timestamp || market.created_at || "Unknown"}`,
+async function sendNewMarketsNotification(
+  markets: Market[],
+  idempotencyKey: string
+): Promise<NotifyResult> {
+  console.log(`[MARKET MONITOR] Preparing market notification for ${markets.length} market(s)...`);
+
+  return notify(
+    {
+      event: "market.new",
+      title: `🎉 ${markets.length} New Market${markets.length > 1 ? "s" : ""} Detected`,
+      summary: `🎉 ${markets.length} new market${markets.length > 1 ? "s" : ""} ${markets.length > 1 ? "have" : "has"} gone live!`,
+      blocks: markets.map((market) => ({
+        type: "text" as const,
+        text: `*New Market Detected!*\n*Address:* \`${market.market_address}\`\n*Question:* ${market.question_text || "N/A"}\n*Created:* ${market.block_timestamp || market.created_at || "Unknown"}`,
+      })),
     },
-  }));
-
-  const payload = {
-    text: `🎉 ${markets.length} new market${markets.length > 1 ? "s" : ""} ${markets.length > 1 ? "have" : "has"} gone live!`,
-    blocks: [
-      {
-        type: "header",
-        text: {
-          type: "plain_text",
-          text: `🎉 ${markets.length} New Market${markets.length > 1 ? "s" : ""} Detected`,
-        },
-      },
-      ...blocks,
-    ],
-  };
-
-  try {
-    console.log(`[SLACK MARKET] Sending request to Slack webhook...`);
-    
-    const response = await fetch(slackWebhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
-
-    console.log(`[SLACK MARKET] Response status: ${response.status} ${response.statusText}`);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[SLACK MARKET] ❌ Slack API error response: ${errorText}`);
-      throw new Error(
-        `Slack API error: ${response.status} ${response.statusText} - ${errorText}`
-      );
-    }
-
-    const responseText = await response.text();
-    
-    // Slack webhooks return "ok" on success
-    if (responseText.trim() === "ok") {
-      console.log(`[SLACK MARKET] ✅ Successfully sent Slack notification for ${markets.length} new market(s)`);
-    } else {
-      console.warn(`[SLACK MARKET] ⚠️ Unexpected response from Slack: ${responseText}`);
-      console.log(`[SLACK MARKET] ✅ Message sent (response: ${responseText})`);
-    }
-  } catch (error) {
-    console.error("[SLACK MARKET] ❌ Failed to send Slack notification:", error);
-    if (error instanceof Error) {
-      console.error("[SLACK MARKET] Error message:", error.message);
-      console.error("[SLACK MARKET] Error stack:", error.stack);
-    }
-    throw error;
-  }
+    { idempotencyKey }
+  );
 }
 
 /**
  * Check for new markets and send notifications
+ * Only ledger rows newer than the stored cursor are scanned; the first run
+ * just records the latest ledger timestamp
  */
 export async function checkForNewMarkets(): Promise<void> {
   try {
     console.log("Checking for new markets...");
-    const knownMarkets = await loadKnownMarkets();
-    const allMarkets = await getAllMarkets();
+    const previous = await loadMarketCursor();
+    const latest = await getLatestLedgerTimestamp();
 
-    // Normalize market addresses to lowercase for comparison
-    const knownMarketSet = new Set(
-      knownMarkets.markets.map((addr) => addr.toLowerCase())
-    );
+    if (!latest) {
+      console.log("Ledger is empty, nothing to check");
+      return;
+    }
 
-    // Find new markets
-    const newMarkets = allMarkets.filter(
-      (market) => !knownMarketSet.has(market.market_address.toLowerCase())
-    );
+    if (!previous) {
+      await saveMarketCursor({ cursor: latest, lastCheck: new Date().toISOString() });
+      console.log(`Initialized market cursor at ${latest}`);
+      return;
+    }
+
+    // A range whose notification is still in the outbox is scanned again with
+    // the same bounds, so it maps to the same outbox entry instead of a new one
+    const until = previous.pendingUntil || latest;
+
+    // Compare as dates: ledger timestamps and legacy check times use different offsets
+    const hasNewRows = new Date(until).getTime() > new Date(previous.cursor).getTime();
+    const newMarkets = hasNewRows ? await getNewMarkets(previous.cursor, until) : [];
+    let delivered = true;
 
     if (newMarkets.length > 0) {
       console.log(`Found ${newMarkets.length} new market(s)`);
 
-      // Send Slack notification
-      const slackWebhookUrl = process.env.SLACK_WEBHOOK_URL;
-      if (slackWebhookUrl) {
-        await sendSlackNotification(slackWebhookUrl, newMarkets);
-      } else {
-        console.warn(
-          "SLACK_WEBHOOK_URL not set - skipping notification (markets still tracked)"
-        );
-      }
-
-      // Update known markets
-      const updatedKnownMarkets: KnownMarkets = {
-        markets: allMarkets.map((m) => m.market_address),
-        lastCheck: new Date().toISOString(),
-      };
-      await saveKnownMarkets(updatedKnownMarkets);
+      const result = await sendNewMarketsNotification(
+        newMarkets,
+        buildIdempotencyKey("market.new", [previous.cursor, until])
+      );
+      delivered = result.delivered;
 
-      console.log(`Updated known markets list (${allMarkets.length} total)`);
+      if (result.deliveries.some((d) => d.status === "expired")) {
+        console.error(`Gave up announcing markets up to ${until}, moving on`);
+        delivered = true;
+      }
     } else {
       console.log("No new markets found");
-      // Update last check time even if no new markets
-      const updatedKnownMarkets: KnownMarkets = {
-        ...knownMarkets,
-        lastCheck: new Date().toISOString(),
-      };
-      await saveKnownMarkets(updatedKnownMarkets);
     }
+
+    // Only move the cursor forward once the new markets were delivered
+    const cursor = hasNewRows && delivered ? until : previous.cursor;
+    await saveMarketCursor({
+      cursor,
+      pendingUntil: delivered ? undefined : until,
+      lastCheck: new Date().toISOString(),
+    });
+    console.log(
+      delivered
+        ? `Market cursor at ${cursor}`
+        : `Market notification pending, cursor held at ${cursor}`
+    );
   } catch (error) {
     console.error("Error checking for new markets:", error);
     // Don't throw - we want the interval to continue running
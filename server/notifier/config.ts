@@ -0,0 +1,97 @@
+import fs from "fs";
+import path from "path";
+import { NotifierConfig, SinkConfig } from "./types";
+
+// Routing file; without one, everything goes to SLACK_WEBHOOK_URL
+export const NOTIFIER_CONFIG_FILE =
+  process.env.NOTIFIER_CONFIG_FILE || path.join(__dirname, "..", "notifier.json");
+
+// Each sink request is aborted after this long, so a hung endpoint cannot stall a monitor
+const SINK_TIMEOUT_MS = parseInt(process.env.NOTIFIER_TIMEOUT_MS || "") || 10 * 1000;
+
+/**
+ * POST from a sink with the sink timeout
+ * A timeout is thrown like any other failed request, so the outbox retries it
+ */
+export async function sinkFetch(sinkName: string, url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(SINK_TIMEOUT_MS) });
+  } catch (error) {
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      throw new Error(`Sink "${sinkName}" timed out after ${SINK_TIMEOUT_MS}ms`);
+    }
+    throw error;
+  }
+}
+
+const SINK_TYPES: SinkConfig["type"][] = ["slack", "discord", "telegram", "webhook"];
+
+/**
+ * Replace ${VAR} references with environment variables, so secrets can stay
+ * out of the routing file
+ */
+function expandEnv(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] || "");
+  }
+  if (Array.isArray(value)) {
+    return value.map(expandEnv);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [key, expandEnv(inner)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Check the shape of a routing file
+ * @throws if a sink has an unknown type or a route names an unknown sink
+ */
+function validateConfig(config: NotifierConfig): NotifierConfig {
+  if (!config.sinks || typeof config.sinks !== "object" || !Array.isArray(config.routes)) {
+    throw new Error(`${NOTIFIER_CONFIG_FILE} must have "sinks" and "routes"`);
+  }
+  for (const [name, sink] of Object.entries(config.sinks)) {
+    if (!SINK_TYPES.includes(sink.type)) {
+      throw new Error(`Sink "${name}" has unknown type "${sink.type}"`);
+    }
+  }
+  for (const route of config.routes) {
+    for (const sink of route.sinks) {
+      if (!config.sinks[sink]) {
+        throw new Error(`Route for ${route.events.join(", ")} uses unknown sink "${sink}"`);
+      }
+    }
+  }
+  return config;
+}
+
+/**
+ * Default routing: every event to the Slack webhook in SLACK_WEBHOOK_URL, if set
+ */
+function defaultConfig(): NotifierConfig {
+  const webhookUrl = process.env.SLACK_WEBHOOK_URL;
+  if (!webhookUrl) {
+    return { sinks: {}, routes: [] };
+  }
+  return {
+    sinks: { slack: { type: "slack", webhookUrl } },
+    routes: [{ events: ["*"], sinks: ["slack"] }],
+  };
+}
+
+/**
+ * Read the routing file, or fall back to the default routing
+ */
+export function loadNotifierConfig(): NotifierConfig {
+  let data: string;
+  try {
+    data = fs.readFileSync(NOTIFIER_CONFIG_FILE, "utf-8");
+  } catch {
+    // No routing file, use the default
+    return defaultConfig();
+  }
+  return validateConfig(expandEnv(JSON.parse(data)) as NotifierConfig);
+}
@@ -0,0 +1,50 @@
+import { blocksToText, toDiscordMarkdown, truncate } from "./markup";
+import { sinkFetch } from "./config";
+import { Notification, Sink } from "./types";
+
+// Discord limits embed titles to 256 and descriptions to 4096 characters
+const MAX_TITLE_LENGTH = 256;
+const MAX_DESCRIPTION_LENGTH = 4096;
+
+/**
+ * Sink posting an embed to a Discord webhook
+ */
+export function createDiscordSink(name: string, webhookUrl: string): Sink {
+  return {
+    name,
+    type: "discord",
+
+    async send(notification: Notification): Promise<void> {
+      if (!webhookUrl.startsWith("https://discord.com/api/webhooks/")) {
+        throw new Error("Invalid Discord webhook URL format. Must start with 'https://discord.com/api/webhooks/'");
+      }
+
+      const response = await sinkFetch(name, webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          content: toDiscordMarkdown(notification.summary),
+          embeds: [
+            {
+              title: truncate(notification.title, MAX_TITLE_LENGTH),
+              description: truncate(
+                blocksToText(notification.blocks, toDiscordMarkdown),
+                MAX_DESCRIPTION_LENGTH
+              ),
+            },
+          ],
+        }),
+      });
+
+      // Discord answers 204 No Content on success
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Discord API error: ${response.status} ${response.statusText} - ${errorText}`
+        );
+      }
+    },
+  };
+}
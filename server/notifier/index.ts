@@ -0,0 +1,71 @@
+import crypto from "crypto";
+import { deliverNow, enqueue, getDeliveries, OutboxEntry } from "./outbox";
+import { resolveSinks } from "./router";
+import { Notification } from "./types";
+
+export type {
+  Notification,
+  NotificationBlock,
+  NotificationEvent,
+  NotifierConfig,
+  Sink,
+} from "./types";
+export type { DeliveryStatus, FlushResult, OutboxEntry } from "./outbox";
+export { flushOutbox, listOutbox, startOutboxWorker, stopOutboxWorker } from "./outbox";
+export { describeNotifier, hasNotificationSinks, resolveSinks } from "./router";
+
+export interface NotifyOptions {
+  // Notifications with the same key are only ever sent once per sink
+  idempotencyKey?: string;
+}
+
+export interface NotifyResult {
+  key: string;
+  duplicate: boolean; // The key was already in the outbox
+  delivered: boolean; // Every routed sink has received it (true when none are routed)
+  deliveries: Array<Pick<OutboxEntry, "sink" | "status" | "attempts" | "lastError">>;
+}
+
+/**
+ * Build a short idempotency key from an event and the values that identify it
+ */
+export function buildIdempotencyKey(event: string, parts: string[]): string {
+  const hash = crypto.createHash("sha256").update(parts.join("|")).digest("hex");
+  return `${event}:${hash.slice(0, 24)}`;
+}
+
+/**
+ * Queue a notification for every sink its event is routed to and try to deliver it
+ * Failed deliveries stay in the outbox and are retried with backoff, so this
+ * does not throw when a sink is down; check `delivered` when it matters
+ */
+export async function notify(
+  notification: Notification,
+  options: NotifyOptions = {}
+): Promise<NotifyResult> {
+  const key = options.idempotencyKey || `${notification.event}:${crypto.randomUUID()}`;
+  const names = resolveSinks(notification.event);
+
+  if (names.length === 0) {
+    console.warn(`[NOTIFIER] ⚠️ No sink configured for "${notification.event}", skipping notification`);
+    return { key, duplicate: false, delivered: true, deliveries: [] };
+  }
+
+  const { duplicate } = await enqueue(key, notification, names);
+  if (duplicate) {
+    console.log(`[NOTIFIER] "${key}" is already in the outbox, not queueing it again`);
+  }
+
+  // Only this notification is tried inline; the backlog is left to the worker and the cron
+  await deliverNow(key, names);
+
+  const deliveries = (await getDeliveries(key, names)).map(
+    ({ sink, status, attempts, lastError }) => ({ sink, status, attempts, lastError })
+  );
+  const delivered = deliveries.every((d) => d.status === "delivered");
+  if (!delivered) {
+    console.warn(`[NOTIFIER] ⚠️ "${key}" not yet delivered to every sink, it stays in the outbox`);
+  }
+
+  return { key, duplicate, delivered, deliveries };
+}
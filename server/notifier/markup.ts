@@ -0,0 +1,53 @@
+import { NotificationBlock } from "./types";
+
+/**
+ * Join blocks into one text body for channels without a block layout
+ * @param convert - Converts Slack-style markup to the channel's format
+ */
+export function blocksToText(
+  blocks: NotificationBlock[],
+  convert: (text: string) => string
+): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "text":
+        case "context":
+          return convert(block.text);
+        case "fields":
+          return block.fields.map(convert).join("\n");
+        case "divider":
+          return "──────────";
+      }
+    })
+    .join("\n\n");
+}
+
+/**
+ * Cut text to a channel's length limit, marking the cut
+ */
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Convert Slack markup to Discord markdown (*bold* becomes **bold**)
+ */
+export function toDiscordMarkdown(text: string): string {
+  return text.replace(/\*([^*\n]+)\*/g, "**$1**");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Convert Slack markup to Telegram HTML
+ * Italics only match whole words, so snake_case identifiers are left alone
+ */
+export function toTelegramHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`\n]+)`/g, "<code>$1</code>")
+    .replace(/\*([^*\n]+)\*/g, "<b>$1</b>")
+    .replace(/(^|\s)_([^_\n]+)_(?=\s|$|[.,!?])/g, "$1<i>$2</i>");
+}
@@ -0,0 +1,460 @@
+import { getStorage } from "../storage";
+import { getRateLimit, getSink } from "./router";
+import { Notification } from "./types";
+
+const OUTBOX_PREFIX = "outbox:";
+const RATE_PREFIX = "outbox-rate:";
+const PENDING_INDEX_KEY = "outbox-pending"; // Storage keys of pending entries
+const LAST_PRUNE_KEY = "outbox-last-prune";
+
+const FLUSH_INTERVAL_MS = 60 * 1000; // 1 minute
+const RATE_WINDOW_MS = 60 * 1000;
+
+// Retry delays double from 30 seconds up to 1 hour
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+
+// Undelivered entries are given up after this long
+const MAX_AGE_HOURS = parseInt(process.env.OUTBOX_MAX_AGE_HOURS || "") || 24;
+
+// Finished entries are kept this long so their keys keep deduplicating
+const RETENTION_DAYS = parseInt(process.env.OUTBOX_RETENTION_DAYS || "") || 30;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000; // Old entries are looked for once a day
+
+// A claimed entry is left to its sender this long (well over a sink's timeout);
+// after that another process may retry it
+const LEASE_MS = 2 * 60 * 1000;
+
+// Compare-and-set retries before a contended key gives up
+const CAS_ATTEMPTS = 10;
+
+export type DeliveryStatus = "pending" | "sending" | "delivered" | "expired";
+
+/**
+ * One notification waiting for (or done with) delivery to one sink
+ */
+export interface OutboxEntry {
+  key: string; // Idempotency key shared by all sinks of a notification
+  sink: string;
+  notification: Notification;
+  status: DeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  leaseUntil?: string; // While "sending": when the claim lapses if the sender died
+  deliveredAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Messages sent by a sink in the current rate window
+ */
+interface RateWindow {
+  windowStart: string;
+  count: number;
+}
+
+export interface FlushResult {
+  delivered: number;
+  failed: number; // Attempts that failed and will be retried
+  expired: number;
+  pending: number; // Still waiting after this flush
+}
+
+type DeliveryOutcome = keyof FlushResult | "skipped";
+
+function entryKey(key: string, sink: string): string {
+  return `${OUTBOX_PREFIX}${key}:${sink}`;
+}
+
+/**
+ * Read-modify-write a keyed value with compare-and-set, retrying when another
+ * process changed it in between, so concurrent invocations never overwrite each other
+ * @param update - Returns the new value, or undefined to leave it unchanged
+ * @returns the value written, or undefined if nothing was written
+ */
+async function updateAtomically<T>(
+  key: string,
+  update: (current: T | null) => T | undefined | Promise<T | undefined>
+): Promise<T | undefined> {
+  const storage = await getStorage();
+  for (let attempt = 0; attempt < CAS_ATTEMPTS; attempt++) {
+    const current = await storage.get<T>(key);
+    const next = await update(current);
+    if (next === undefined) {
+      return undefined;
+    }
+    if (await storage.compareAndSet(key, current, next)) {
+      return next;
+    }
+  }
+  throw new Error(`Could not update "${key}": too many concurrent writers`);
+}
+
+/**
+ * Update the pending index, the storage keys of every unfinished entry
+ * The index is created from a full scan of the outbox the first time it is used
+ */
+async function updatePendingIndex(fn: (pending: Set<string>) => void): Promise<void> {
+  await updateAtomically<string[]>(PENDING_INDEX_KEY, async (stored) => {
+    const keys =
+      stored ??
+      (await scanOutbox())
+        .filter((e) => e.status === "pending" || e.status === "sending")
+        .map((e) => entryKey(e.key, e.sink));
+
+    const pending = new Set(keys);
+    fn(pending);
+    const changed = stored === null || pending.size !== keys.length || keys.some((key) => !pending.has(key));
+    return changed ? [...pending] : undefined;
+  });
+}
+
+/**
+ * Add a notification to the outbox for each sink
+ * Sinks that already have an entry for this key are left alone; entries are
+ * created with compare-and-set, so concurrent callers never both create one
+ * @returns the entries for the key, and whether all of them already existed
+ */
+export async function enqueue(
+  key: string,
+  notification: Notification,
+  sinkNames: string[]
+): Promise<{ entries: OutboxEntry[]; duplicate: boolean }> {
+  const storage = await getStorage();
+  const now = new Date().toISOString();
+  const entries: OutboxEntry[] = [];
+  const created: string[] = [];
+
+  for (const sink of sinkNames) {
+    const entry: OutboxEntry = {
+      key,
+      sink,
+      notification,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+    if (await storage.compareAndSet<OutboxEntry>(entryKey(key, sink), null, entry)) {
+      created.push(entryKey(key, sink));
+      entries.push(entry);
+      continue;
+    }
+
+    const existing = await storage.get<OutboxEntry>(entryKey(key, sink));
+    if (existing) {
+      entries.push(existing);
+    }
+  }
+
+  if (created.length > 0) {
+    await updatePendingIndex((pending) => {
+      for (const createdKey of created) pending.add(createdKey);
+    });
+  }
+
+  return { entries, duplicate: sinkNames.length > 0 && created.length === 0 };
+}
+
+/**
+ * Get the outbox entries of a notification
+ */
+export async function getDeliveries(key: string, sinkNames: string[]): Promise<OutboxEntry[]> {
+  const storage = await getStorage();
+  const entries = await Promise.all(
+    sinkNames.map((sink) => storage.get<OutboxEntry>(entryKey(key, sink)))
+  );
+  return entries.filter((e): e is OutboxEntry => e !== null);
+}
+
+async function getEntries(keys: string[]): Promise<OutboxEntry[]> {
+  const storage = await getStorage();
+  const entries = await Promise.all(keys.map((key) => storage.get<OutboxEntry>(key)));
+  return entries
+    .filter((e): e is OutboxEntry => e !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Read every outbox entry, delivered and expired ones included
+ */
+async function scanOutbox(): Promise<OutboxEntry[]> {
+  const storage = await getStorage();
+  return getEntries(await storage.keys(OUTBOX_PREFIX));
+}
+
+function isUnfinished(entry: OutboxEntry): boolean {
+  return entry.status === "pending" || entry.status === "sending";
+}
+
+/**
+ * List pending and sending outbox entries from the pending index, oldest first
+ */
+async function listPending(): Promise<OutboxEntry[]> {
+  const storage = await getStorage();
+  let keys = await storage.get<string[]>(PENDING_INDEX_KEY);
+  if (keys === null) {
+    // Build the index from a scan the first time
+    await updatePendingIndex(() => undefined);
+    keys = (await storage.get<string[]>(PENDING_INDEX_KEY)) ?? [];
+  }
+
+  const entries: OutboxEntry[] = [];
+  const stale: string[] = [];
+  for (const key of keys) {
+    const entry = await storage.get<OutboxEntry>(key);
+    if (entry && isUnfinished(entry)) {
+      entries.push(entry);
+    } else {
+      stale.push(key);
+    }
+  }
+
+  // Drop keys whose entry finished or was removed without the index being updated
+  if (stale.length > 0) {
+    await updatePendingIndex((pending) => {
+      for (const key of stale) pending.delete(key);
+    });
+  }
+
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * List outbox entries, oldest first
+ */
+export async function listOutbox(status?: DeliveryStatus): Promise<OutboxEntry[]> {
+  if (status === "pending" || status === "sending") {
+    return (await listPending()).filter((e) => e.status === status);
+  }
+  const entries = await scanOutbox();
+  return entries.filter((e) => !status || e.status === status);
+}
+
+/**
+ * Delete finished entries past the retention period, at most once a day
+ * This is the only place that scans the whole outbox
+ */
+async function pruneFinished(now: Date): Promise<void> {
+  const storage = await getStorage();
+  const lastPrune = await storage.get<string>(LAST_PRUNE_KEY);
+  if (lastPrune && now.getTime() - new Date(lastPrune).getTime() < PRUNE_INTERVAL_MS) {
+    return;
+  }
+
+  const retentionCutoff = now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (const entry of await scanOutbox()) {
+    if (!isUnfinished(entry) && new Date(entry.createdAt).getTime() < retentionCutoff) {
+      await storage.delete(entryKey(entry.key, entry.sink));
+    }
+  }
+  await storage.set(LAST_PRUNE_KEY, now.toISOString());
+}
+
+/**
+ * Take one message from a sink's rate window
+ * @returns null if a message may be sent, otherwise when the next window opens
+ */
+async function takeRateSlot(sink: string, now: Date): Promise<string | null> {
+  let retryAt: string | null = null;
+  await updateAtomically<RateWindow>(`${RATE_PREFIX}${sink}`, (window) => {
+    retryAt = null;
+    const windowStart = window ? new Date(window.windowStart).getTime() : 0;
+    if (!window || now.getTime() - windowStart >= RATE_WINDOW_MS) {
+      return { windowStart: now.toISOString(), count: 1 };
+    }
+    if (window.count >= getRateLimit(sink)) {
+      retryAt = new Date(windowStart + RATE_WINDOW_MS).toISOString();
+      return undefined;
+    }
+    return { ...window, count: window.count + 1 };
+  });
+  return retryAt;
+}
+
+/**
+ * Try to deliver one entry if it is due
+ * The entry is claimed with compare-and-set (status "sending" with a lease)
+ * before it is sent, so only one process ever sends it, even when the worker,
+ * the cron and notify() run at the same time in separate invocations
+ */
+async function deliverEntry(entry: OutboxEntry, now: Date): Promise<DeliveryOutcome> {
+  const storage = await getStorage();
+  const key = entryKey(entry.key, entry.sink);
+
+  if (!isUnfinished(entry)) {
+    return "skipped";
+  }
+  if (entry.status === "sending" && new Date(entry.leaseUntil || 0).getTime() > now.getTime()) {
+    // Another process is sending it
+    return "pending";
+  }
+
+  if (new Date(entry.createdAt).getTime() < now.getTime() - MAX_AGE_HOURS * 60 * 60 * 1000) {
+    const expired: OutboxEntry = { ...entry, status: "expired", leaseUntil: undefined };
+    if (!(await storage.compareAndSet(key, entry, expired))) {
+      return "skipped";
+    }
+    console.error(`[OUTBOX] ❌ Gave up on "${entry.key}" for ${entry.sink} after ${entry.attempts} attempt(s): ${entry.lastError}`);
+    return "expired";
+  }
+
+  if (entry.status === "pending" && new Date(entry.nextAttemptAt).getTime() > now.getTime()) {
+    return "pending";
+  }
+
+  const claimed: OutboxEntry = {
+    ...entry,
+    status: "sending",
+    leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString(),
+  };
+  if (!(await storage.compareAndSet(key, entry, claimed))) {
+    // Another process claimed or finished it first
+    return "skipped";
+  }
+
+  const retryAt = await takeRateSlot(entry.sink, now);
+  if (retryAt) {
+    // Wait for the next window without counting an attempt
+    await storage.set<OutboxEntry>(key, {
+      ...claimed,
+      status: "pending",
+      leaseUntil: undefined,
+      nextAttemptAt: retryAt,
+    });
+    return "pending";
+  }
+
+  const attempt: OutboxEntry = { ...claimed, attempts: claimed.attempts + 1, leaseUntil: undefined };
+  let outcome: DeliveryOutcome;
+  try {
+    const sink = getSink(entry.sink);
+    if (!sink) {
+      throw new Error(`Sink "${entry.sink}" is not configured`);
+    }
+    await sink.send(entry.notification);
+    attempt.status = "delivered";
+    attempt.deliveredAt = new Date().toISOString();
+    attempt.lastError = undefined;
+    outcome = "delivered";
+    console.log(`[OUTBOX] ✅ Delivered "${entry.key}" to ${entry.sink}`);
+  } catch (error) {
+    const delay = Math.min(BASE_RETRY_MS * 2 ** (attempt.attempts - 1), MAX_RETRY_MS);
+    attempt.status = "pending";
+    attempt.nextAttemptAt = new Date(now.getTime() + delay).toISOString();
+    attempt.lastError = error instanceof Error ? error.message : "Unknown error";
+    outcome = "failed";
+    console.error(`[OUTBOX] ❌ Attempt ${attempt.attempts} for "${entry.key}" to ${entry.sink} failed, retrying in ${Math.round(delay / 1000)}s:`, attempt.lastError);
+  }
+
+  // The claim is ours until the lease lapses, so the result is written directly
+  await storage.set(key, attempt);
+  return outcome;
+}
+
+/**
+ * Deliver entries and tally the outcomes, dropping finished ones from the pending index
+ */
+async function deliverEntries(entries: OutboxEntry[], now: Date): Promise<FlushResult> {
+  const result: FlushResult = { delivered: 0, failed: 0, expired: 0, pending: 0 };
+  const finished: string[] = [];
+
+  for (const entry of entries) {
+    const outcome = await deliverEntry(entry, now);
+    if (outcome === "skipped") {
+      continue;
+    }
+    result[outcome]++;
+    if (outcome === "failed") {
+      result.pending++;
+    }
+    if (outcome === "delivered" || outcome === "expired") {
+      finished.push(entryKey(entry.key, entry.sink));
+    }
+  }
+
+  if (finished.length > 0) {
+    await updatePendingIndex((pending) => {
+      for (const key of finished) pending.delete(key);
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Try to deliver the entries of one notification now, leaving the rest of the
+ * outbox to the worker and the cron
+ */
+export async function deliverNow(key: string, sinkNames: string[]): Promise<FlushResult> {
+  return deliverEntries(await getDeliveries(key, sinkNames), new Date());
+}
+
+/**
+ * Try to deliver every due entry, respecting each sink's rate limit
+ */
+async function runFlush(): Promise<FlushResult> {
+  const now = new Date();
+  const result = await deliverEntries(await listPending(), now);
+  await pruneFinished(now);
+  return result;
+}
+
+let flushing: Promise<FlushResult> | null = null;
+let queued: Promise<FlushResult> | null = null;
+
+/**
+ * Deliver due outbox entries
+ * Flushes in this process never overlap; a call made during a flush runs one
+ * more flush after it, which picks up entries queued in the meantime. Entries
+ * are claimed before sending, so flushes in other processes never send one twice
+ */
+export function flushOutbox(): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  }
+  if (!queued) {
+    queued = flushing
+      .catch(() => undefined)
+      .then(() => {
+        queued = null;
+        return flushOutbox();
+      });
+  }
+  return queued;
+}
+
+let intervalId: NodeJS.Timeout | null = null;
+
+/**
+ * Start retrying outbox entries every minute
+ */
+export function startOutboxWorker(): void {
+  if (intervalId) {
+    console.log("Outbox worker is already running");
+    return;
+  }
+
+  intervalId = setInterval(() => {
+    flushOutbox().catch((error) => {
+      console.error("Outbox flush failed:", error);
+    });
+  }, FLUSH_INTERVAL_MS);
+
+  console.log("Outbox worker started (flushing every minute)");
+}
+
+/**
+ * Stop the outbox worker
+ */
+export function stopOutboxWorker(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("Outbox worker stopped");
+  }
+}
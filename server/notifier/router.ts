@@ -0,0 +1,104 @@
+import { loadNotifierConfig, NOTIFIER_CONFIG_FILE } from "./config";
+import { createDiscordSink } from "./discord";
+import { createSlackSink } from "./slack";
+import { createTelegramSink } from "./telegram";
+import { NotifierConfig, Sink, SinkConfig } from "./types";
+import { createWebhookSink } from "./webhook";
+
+// Messages per minute each channel accepts before throttling
+const DEFAULT_RATE_LIMITS: Record<SinkConfig["type"], number> = {
+  slack: 60, // About one message per second per webhook
+  discord: 30,
+  telegram: 20, // Per group chat
+  webhook: 60,
+};
+
+let config: NotifierConfig | null = null;
+const sinks = new Map<string, Sink>();
+
+function getConfig(): NotifierConfig {
+  if (!config) {
+    config = loadNotifierConfig();
+  }
+  return config;
+}
+
+function createSink(name: string, sinkConfig: SinkConfig): Sink {
+  switch (sinkConfig.type) {
+    case "slack":
+      return createSlackSink(name, sinkConfig.webhookUrl);
+    case "discord":
+      return createDiscordSink(name, sinkConfig.webhookUrl);
+    case "telegram":
+      return createTelegramSink(name, sinkConfig.botToken, sinkConfig.chatId);
+    case "webhook":
+      return createWebhookSink(name, sinkConfig.url, sinkConfig.headers);
+  }
+}
+
+/**
+ * Get a configured sink by name
+ * @returns the sink, or null if the routing no longer has it
+ */
+export function getSink(name: string): Sink | null {
+  const sinkConfig = getConfig().sinks[name];
+  if (!sinkConfig) {
+    return null;
+  }
+  let sink = sinks.get(name);
+  if (!sink) {
+    sink = createSink(name, sinkConfig);
+    sinks.set(name, sink);
+  }
+  return sink;
+}
+
+/**
+ * Messages per minute a sink may send
+ */
+export function getRateLimit(name: string): number {
+  const sinkConfig = getConfig().sinks[name];
+  if (!sinkConfig) {
+    return 0;
+  }
+  return sinkConfig.rateLimitPerMinute || DEFAULT_RATE_LIMITS[sinkConfig.type];
+}
+
+function matchesEvent(pattern: string, event: string): boolean {
+  if (pattern === "*") return true;
+  if (pattern.endsWith(".*")) return event.startsWith(pattern.slice(0, -1));
+  return pattern === event;
+}
+
+/**
+ * Names of the sinks an event is routed to
+ * The first route with a matching pattern wins, so put catch-alls last
+ */
+export function resolveSinks(event: string): string[] {
+  const route = getConfig().routes.find((r) => r.events.some((p) => matchesEvent(p, event)));
+  return route ? route.sinks : [];
+}
+
+/**
+ * Whether any event has somewhere to go
+ */
+export function hasNotificationSinks(): boolean {
+  return getConfig().routes.some((r) => r.sinks.length > 0);
+}
+
+/**
+ * Describe the notifier configuration (for the debug endpoint)
+ * Only sink names, types and rate limits are shown, never URLs or tokens
+ */
+export function describeNotifier() {
+  const { sinks: sinkConfigs, routes } = getConfig();
+  return {
+    configFile: NOTIFIER_CONFIG_FILE,
+    sinks: Object.entries(sinkConfigs).map(([name, sink]) => ({
+      name,
+      type: sink.type,
+      rateLimitPerMinute: getRateLimit(name),
+    })),
+    routes,
+  };
+}
@@ -0,0 +1,89 @@
+import { sinkFetch } from "./config";
+import { Notification, NotificationBlock, Sink } from "./types";
+
+/**
+ * Render a title and notification blocks as a Slack Block Kit message
+ * Also used for replies to slash commands
+ */
+export function toSlackMessage(
+  title: string,
+  summary: string,
+  blocks: NotificationBlock[]
+): { text: string; blocks: object[] } {
+  const renderBlock = (block: NotificationBlock) => {
+    switch (block.type) {
+      case "text":
+        return { type: "section", text: { type: "mrkdwn", text: block.text } };
+      case "fields":
+        return {
+          type: "section",
+          fields: block.fields.map((text) => ({ type: "mrkdwn", text })),
+        };
+      case "divider":
+        return { type: "divider" };
+      case "context":
+        return { type: "context", elements: [{ type: "mrkdwn", text: block.text }] };
+    }
+  };
+
+  return {
+    text: summary,
+    blocks: [
+      {
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: title,
+        },
+      },
+      ...blocks.map(renderBlock),
+    ],
+  };
+}
+
+/**
+ * Sink posting to a Slack incoming webhook
+ */
+export function createSlackSink(name: string, webhookUrl: string): Sink {
+  return {
+    name,
+    type: "slack",
+
+    async send(notification: Notification): Promise<void> {
+      if (!webhookUrl) {
+        throw new Error(`Slack sink "${name}" has no webhookUrl`);
+      }
+
+      // Validate webhook URL format
+      if (!webhookUrl.startsWith("https://hooks.slack.com/services/")) {
+        console.warn(`[NOTIFIER] ⚠️ Invalid webhook URL format for "${name}". Expected to start with 'https://hooks.slack.com/services/'`);
+        console.warn(`[NOTIFIER] Current URL: ${webhookUrl.substring(0, 50)}...`);
+        throw new Error("Invalid Slack webhook URL format. Must start with 'https://hooks.slack.com/services/'");
+      }
+
+      const response = await sinkFetch(name, webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(
+          toSlackMessage(notification.title, notification.summary, notification.blocks)
+        ),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Slack API error: ${response.status} ${response.statusText} - ${errorText}`
+        );
+      }
+
+      const responseText = await response.text();
+
+      // Slack webhooks return "ok" on success
+      if (responseText.trim() !== "ok") {
+        console.warn(`[NOTIFIER] ⚠️ Unexpected response from Slack: ${responseText}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { blocksToText, toTelegramHtml, truncate } from "./markup";
+import { sinkFetch } from "./config";
+import { Notification, Sink } from "./types";
+
+// Telegram limits messages to 4096 characters
+const MAX_MESSAGE_LENGTH = 4096;
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Sink sending a message through the Telegram Bot API
+ */
+export function createTelegramSink(name: string, botToken: string, chatId: string): Sink {
+  return {
+    name,
+    type: "telegram",
+
+    async send(notification: Notification): Promise<void> {
+      if (!botToken || !chatId) {
+        throw new Error(`Telegram sink "${name}" requires botToken and chatId`);
+      }
+
+      const text = `<b>${toTelegramHtml(notification.title)}</b>\n\n${blocksToText(
+        notification.blocks,
+        toTelegramHtml
+      )}`;
+      // Cutting may split a tag, so send plain text when over the limit
+      const fits = text.length <= MAX_MESSAGE_LENGTH;
+
+      const response = await sinkFetch(name, `https://api.telegram.org/bot${botToken}/sendMessage`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text: fits ? text : truncate(stripHtml(text), MAX_MESSAGE_LENGTH),
+          parse_mode: fits ? "HTML" : undefined,
+          disable_web_page_preview: true,
+        }),
+      });
+
+      const result = (await response.json().catch(() => null)) as {
+        ok?: boolean;
+        description?: string;
+      } | null;
+
+      if (!response.ok || !result?.ok) {
+        throw new Error(
+          `Telegram API error: ${response.status} ${response.statusText} - ${result?.description || "Unknown error"}`
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Notifier types
+ *
+ * Monitors describe what happened as a Notification; the notifier routes it by
+ * event to one or more sinks, each of which renders it for its channel.
+ * Text uses Slack-style markup (*bold*, _italic_, `code`), which every sink
+ * converts to its own format.
+ */
+
+export type NotificationEvent =
+  | "deployment" // Deployment / test message
+  | "market.new" // New markets detected
+  | "market.resolved" // Markets held by a tracked wallet resolved
+  | "price.alert" // Price alert rules triggered
+  | "wallet.report" // Full wallet portfolio report
+  | "wallet.changes" // Wallet activity since the last snapshot
+  | "wallet.unclaimed" // Reminder of winnings still to be claimed
+  | "wallet.risk"; // Risk limits newly breached
+
+export type NotificationBlock =
+  | { type: "text"; text: string }
+  | { type: "fields"; fields: string[] } // Short "*Label:*\nvalue" pairs shown side by side
+  | { type: "divider" }
+  | { type: "context"; text: string }; // Small print
+
+export interface Notification {
+  event: NotificationEvent;
+  title: string; // Heading, e.g. "💰 Wallet Portfolio Report"
+  summary: string; // One-line text for previews and plain-text channels
+  blocks: NotificationBlock[];
+}
+
+export type SinkConfig = (
+  | { type: "slack"; webhookUrl: string }
+  | { type: "discord"; webhookUrl: string }
+  | { type: "telegram"; botToken: string; chatId: string }
+  | { type: "webhook"; url: string; headers?: Record<string, string> }
+) & {
+  rateLimitPerMinute?: number; // Overrides the default limit for the sink type
+};
+
+/**
+ * A route sends events matching any of its patterns to its sinks
+ * Patterns are exact event names, a prefix such as "wallet.*", or "*"
+ */
+export interface NotifierRoute {
+  events: string[];
+  sinks: string[];
+}
+
+export interface NotifierConfig {
+  sinks: Record<string, SinkConfig>;
+  routes: NotifierRoute[];
+}
+
+/**
+ * A destination for notifications
+ */
+export interface Sink {
+  name: string;
+  type: SinkConfig["type"];
+  send(notification: Notification): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import { sinkFetch } from "./config";
+import { Notification, Sink } from "./types";
+
+/**
+ * Sink posting the notification as JSON to any HTTP endpoint
+ * The body is the notification itself plus a `sentAt` timestamp
+ */
+export function createWebhookSink(
+  name: string,
+  url: string,
+  headers: Record<string, string> = {}
+): Sink {
+  return {
+    name,
+    type: "webhook",
+
+    async send(notification: Notification): Promise<void> {
+      if (!/^https?:\/\//.test(url)) {
+        throw new Error(`Webhook sink "${name}" requires an http(s) url`);
+      }
+
+      const response = await sinkFetch(name, url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        body: JSON.stringify({ ...notification, sentAt: new Date().toISOString() }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Webhook error: ${response.status} ${response.statusText} - ${errorText}`
+        );
+      }
+    },
+  };
+}
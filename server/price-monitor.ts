@@ -0,0 +1,358 @@
+import { getOutcomePrices, OutcomePrice } from "../lib/for-wenbo-main/queries/market";
+import { getWalletPositions } from "../lib/for-wenbo-main/queries/wallet";
+import { getPriceRules, PriceRule } from "./price-rules";
+import { getStorage } from "./storage";
+import { getTrackedWallets } from "./tracked-wallets";
+import { buildIdempotencyKey, notify } from "./notifier";
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const PRICE_SAMPLES_STREAM = "price-samples";
+const PRICE_ALERTS_KEY = "price-alerts";
+
+// Samples older than this are dropped, unless a rule's window needs them
+const RETENTION_HOURS = parseInt(process.env.PRICE_HISTORY_RETENTION_HOURS || "") || 24;
+
+// Slack rejects messages with more than 50 blocks
+const MAX_ALERTS_PER_MESSAGE = 40;
+
+/**
+ * Prices of every outcome token at one check, keyed by priceKey
+ */
+interface PriceSample {
+  timestamp: string;
+  prices: Record<string, number>;
+}
+
+/**
+ * Last alert per rule and token, keyed by `${ruleId}:${priceKey}`
+ */
+type PriceAlertState = Record<string, string>;
+
+export interface PriceAlert {
+  rule_id: string;
+  rule_name?: string;
+  type: PriceRule["type"];
+  market_address: string;
+  token_id: string;
+  title: string;
+  symbol?: string;
+  old_price: number;
+  new_price: number;
+  from: string; // Timestamp of the old price
+  to: string; // Timestamp of the new price
+}
+
+function priceKey(marketAddress: string, tokenId: string): string {
+  return `${marketAddress.toLowerCase()}:${tokenId}`;
+}
+
+/**
+ * Collect the markets any enabled tracked wallet has a position in
+ * A wallet that fails to load is skipped
+ */
+async function getHeldMarkets(): Promise<Set<string>> {
+  const markets = new Set<string>();
+  const wallets = (await getTrackedWallets()).filter((w) => w.enabled);
+
+  for (const wallet of wallets) {
+    try {
+      const positions = await getWalletPositions(wallet.address);
+      for (const position of positions) {
+        markets.add(position.market_address.toLowerCase());
+      }
+    } catch (error) {
+      console.error(`[PRICE MONITOR] ❌ Error fetching positions for ${wallet.address}:`, error);
+    }
+  }
+
+  return markets;
+}
+
+function isInScope(rule: PriceRule, marketAddress: string, heldMarkets: Set<string>): boolean {
+  const market = marketAddress.toLowerCase();
+  if (rule.scope === "watchlist") {
+    return rule.markets.includes(market);
+  }
+  if (rule.scope === "held") {
+    return heldMarkets.has(market);
+  }
+  return true;
+}
+
+/**
+ * Signed change from `from` to `to` that counts for a rule's direction
+ */
+function directedChange(rule: PriceRule, from: number, to: number): number {
+  const change = to - from;
+  if (rule.direction === "up") return change;
+  if (rule.direction === "down") return -change;
+  return Math.abs(change);
+}
+
+/**
+ * Find the sample in a move rule's window furthest from the current price
+ * @returns the old price and its timestamp when the move reaches the threshold
+ */
+function evaluateMove(
+  rule: PriceRule,
+  key: string,
+  current: number,
+  samples: PriceSample[],
+  now: Date
+): { price: number; timestamp: string } | null {
+  const windowStart = now.getTime() - (rule.windowMinutes || 0) * 60 * 1000;
+  let best: { price: number; timestamp: string; change: number } | null = null;
+
+  for (const sample of samples) {
+    const price = sample.prices[key];
+    if (price === undefined || new Date(sample.timestamp).getTime() < windowStart) {
+      continue;
+    }
+    const change = directedChange(rule, price, current);
+    if (!best || change > best.change) {
+      best = { price, timestamp: sample.timestamp, change };
+    }
+  }
+
+  return best && best.change >= (rule.threshold || 0) ? best : null;
+}
+
+/**
+ * Check whether the price crossed a cross rule's level since the previous sample
+ */
+function evaluateCross(rule: PriceRule, previous: number, current: number): boolean {
+  const level = rule.level || 0;
+  const crossedUp = previous < level && current >= level;
+  const crossedDown = previous > level && current <= level;
+  if (rule.direction === "up") return crossedUp;
+  if (rule.direction === "down") return crossedDown;
+  return crossedUp || crossedDown;
+}
+
+/**
+ * Evaluate all rules against the current prices
+ * Move rules alert at most once per window for the same token
+ */
+function evaluateRules(
+  rules: PriceRule[],
+  prices: OutcomePrice[],
+  samples: PriceSample[],
+  heldMarkets: Set<string>,
+  alertState: PriceAlertState,
+  now: Date
+): PriceAlert[] {
+  const alerts: PriceAlert[] = [];
+  const previousSample = samples[samples.length - 1];
+
+  for (const rule of rules) {
+    for (const outcome of prices) {
+      if (!isInScope(rule, outcome.market_address, heldMarkets)) {
+        continue;
+      }
+
+      const key = priceKey(outcome.market_address, outcome.token_id);
+      let old: { price: number; timestamp: string } | null = null;
+
+      if (rule.type === "move") {
+        const lastAlert = alertState[`${rule.id}:${key}`];
+        const cooldownMs = (rule.windowMinutes || 0) * 60 * 1000;
+        if (lastAlert && now.getTime() - new Date(lastAlert).getTime() < cooldownMs) {
+          continue;
+        }
+        old = evaluateMove(rule, key, outcome.price, samples, now);
+      } else {
+        const previous = previousSample?.prices[key];
+        if (previous !== undefined && evaluateCross(rule, previous, outcome.price)) {
+          old = { price: previous, timestamp: previousSample.timestamp };
+        }
+      }
+
+      if (old) {
+        alerts.push({
+          rule_id: rule.id,
+          rule_name: rule.name,
+          type: rule.type,
+          market_address: outcome.market_address,
+          token_id: outcome.token_id,
+          title: outcome.title,
+          symbol: outcome.symbol,
+          old_price: old.price,
+          new_price: outcome.price,
+          from: old.timestamp,
+          to: now.toISOString(),
+        });
+      }
+    }
+  }
+
+  return alerts;
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    timeZone: "UTC",
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * Format a single price alert for a notification
+ */
+function formatAlert(alert: PriceAlert, rule: PriceRule | undefined): string {
+  const change = alert.new_price - alert.old_price;
+  const arrow = change >= 0 ? "📈" : "📉";
+  const minutes = Math.round(
+    (new Date(alert.to).getTime() - new Date(alert.from).getTime()) / 60000
+  );
+  const ruleText =
+    alert.type === "move"
+      ? `moved ≥ $${(rule?.threshold || 0).toFixed(4)} within ${rule?.windowMinutes} min`
+      : `crossed $${(rule?.level || 0).toFixed(4)}`;
+  const outcome = alert.symbol ? `${alert.symbol} (Token: ${alert.token_id})` : `Token ${alert.token_id}`;
+
+  return `${arrow} *${alert.title}* - ${outcome}
+   $${alert.old_price.toFixed(4)} → $${alert.new_price.toFixed(4)} (${change >= 0 ? "+" : ""}${change.toFixed(4)}) over ${minutes} min
+   ${formatTime(alert.from)} → ${formatTime(alert.to)} UTC | Rule: ${alert.rule_name || ruleText}`;
+}
+
+/**
+ * Send triggered price alerts in one notification
+ */
+async function sendPriceAlerts(alerts: PriceAlert[], rules: PriceRule[]): Promise<void> {
+  const ruleById = new Map(rules.map((r) => [r.id, r]));
+  const shown = alerts.slice(0, MAX_ALERTS_PER_MESSAGE);
+  const remainingCount = alerts.length - shown.length;
+  const idempotencyKey = buildIdempotencyKey(
+    "price.alert",
+    alerts.map((a) => `${a.rule_id}:${priceKey(a.market_address, a.token_id)}:${a.to}`)
+  );
+
+  await notify(
+    {
+      event: "price.alert",
+      title: "📊 Price Alert",
+      summary: `📊 ${alerts.length} price alert(s)`,
+      blocks: [
+        ...shown.map((alert) => ({
+          type: "text" as const,
+          text: formatAlert(alert, ruleById.get(alert.rule_id)),
+        })),
+        ...(remainingCount > 0
+          ? [
+              {
+                type: "context" as const,
+                text: `_...and ${remainingCount} more alert${remainingCount > 1 ? "s" : ""}_`,
+              },
+            ]
+          : []),
+      ],
+    },
+    { idempotencyKey }
+  );
+}
+
+/**
+ * Record the current prices and alert on every rule they trigger
+ * @returns the alerts that were triggered
+ */
+export async function checkPriceMovements(): Promise<PriceAlert[]> {
+  console.log("[PRICE MONITOR] Checking outcome prices...");
+
+  const storage = await getStorage();
+  const now = new Date();
+  const rules = (await getPriceRules()).filter((r) => r.enabled);
+  const prices = await getOutcomePrices();
+
+  // Keep enough history for the longest window, and at least the retention period
+  const maxWindowMinutes = Math.max(0, ...rules.map((r) => r.windowMinutes || 0));
+  const historyMs = Math.max(RETENTION_HOURS * 60, maxWindowMinutes) * 60 * 1000;
+  const samples = await storage.listRecords<PriceSample>(PRICE_SAMPLES_STREAM, {
+    from: new Date(now.getTime() - historyMs).toISOString(),
+  });
+
+  let alerts: PriceAlert[] = [];
+  if (rules.length > 0) {
+    const heldMarkets = rules.some((r) => r.scope === "held")
+      ? await getHeldMarkets()
+      : new Set<string>();
+    const alertState = (await storage.get<PriceAlertState>(PRICE_ALERTS_KEY)) || {};
+    alerts = evaluateRules(rules, prices, samples, heldMarkets, alertState, now);
+
+    if (alerts.length > 0) {
+      console.log(`[PRICE MONITOR] ${alerts.length} price alert(s) triggered`);
+      await sendPriceAlerts(alerts, rules);
+
+      // Drop entries whose cooldown has passed, then record the new alerts
+      const activeRules = new Map(rules.map((r) => [r.id, r]));
+      const nextState: PriceAlertState = {};
+      for (const [key, alertedAt] of Object.entries(alertState)) {
+        const rule = activeRules.get(key.split(":")[0]);
+        const cooldownMs = (rule?.windowMinutes || 0) * 60 * 1000;
+        if (rule && now.getTime() - new Date(alertedAt).getTime() < cooldownMs) {
+          nextState[key] = alertedAt;
+        }
+      }
+      for (const alert of alerts) {
+        nextState[`${alert.rule_id}:${priceKey(alert.market_address, alert.token_id)}`] = alert.to;
+      }
+      await storage.set(PRICE_ALERTS_KEY, nextState);
+    }
+  }
+
+  const sample: PriceSample = { timestamp: now.toISOString(), prices: {} };
+  for (const outcome of prices) {
+    sample.prices[priceKey(outcome.market_address, outcome.token_id)] = outcome.price;
+  }
+  await storage.appendRecord(PRICE_SAMPLES_STREAM, sample.timestamp, sample);
+  await storage.pruneRecords(
+    PRICE_SAMPLES_STREAM,
+    new Date(now.getTime() - historyMs).toISOString()
+  );
+
+  console.log(
+    `[PRICE MONITOR] Recorded ${prices.length} price(s), ${rules.length} rule(s) evaluated`
+  );
+
+  return alerts;
+}
+
+let intervalId: NodeJS.Timeout | null = null;
+
+/**
+ * Start the price monitoring service
+ * Records outcome prices and evaluates alert rules every 5 minutes
+ */
+export function startPriceMonitoring(): void {
+  if (intervalId) {
+    console.log("Price monitoring is already running");
+    return;
+  }
+
+  console.log("Starting price monitoring service (checking every 5 minutes)");
+
+  // Run immediately on start
+  checkPriceMovements().catch((error) => {
+    console.error("Initial price check failed:", error);
+  });
+
+  // Then run every 5 minutes
+  intervalId = setInterval(() => {
+    checkPriceMovements().catch((error) => {
+      console.error("Price check failed:", error);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log("Price monitoring service started");
+}
+
+/**
+ * Stop the price monitoring service
+ */
+export function stopPriceMonitoring(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("Price monitoring service stopped");
+  }
+}
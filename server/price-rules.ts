@@ -0,0 +1,163 @@
+import { randomUUID } from "crypto";
+import { getStorage } from "./storage";
+
+const PRICE_RULES_KEY = "price-rules";
+
+/**
+ * "move": alert when the price changes by at least `threshold` within `windowMinutes`
+ * "cross": alert when the price crosses `level` between two checks
+ */
+export type PriceRuleType = "move" | "cross";
+
+/**
+ * "all": every unresolved market
+ * "watchlist": only the markets listed in `markets`
+ * "held": only markets an enabled tracked wallet has a position in
+ */
+export type PriceRuleScope = "all" | "watchlist" | "held";
+
+export type PriceDirection = "up" | "down" | "any";
+
+export interface PriceRule {
+  id: string;
+  name?: string;
+  type: PriceRuleType;
+  scope: PriceRuleScope;
+  markets: string[]; // Lowercase market addresses, used by the "watchlist" scope
+  threshold?: number; // Absolute price change for "move" rules, e.g. 0.1 = 10 cents
+  windowMinutes?: number; // Look-back window for "move" rules
+  level?: number; // Price level for "cross" rules
+  direction: PriceDirection;
+  enabled: boolean;
+  createdAt: string;
+}
+
+/**
+ * Fields of a price rule that can be set through the API
+ */
+export type PriceRuleInput = Omit<PriceRule, "id" | "createdAt">;
+
+/**
+ * Read price alert rules
+ */
+export async function getPriceRules(): Promise<PriceRule[]> {
+  const storage = await getStorage();
+  return (await storage.get<PriceRule[]>(PRICE_RULES_KEY)) || [];
+}
+
+/**
+ * Write price alert rules
+ */
+export async function savePriceRules(rules: PriceRule[]): Promise<void> {
+  const storage = await getStorage();
+  await storage.set(PRICE_RULES_KEY, rules);
+}
+
+/**
+ * Create a rule with a fresh id
+ */
+export function createPriceRule(input: PriceRuleInput): PriceRule {
+  return { id: randomUUID(), createdAt: new Date().toISOString(), ...input };
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+/**
+ * Validate a price rule supplied through the API
+ * When `existing` is given, omitted fields keep their current value
+ * @returns the complete rule fields, or an error message
+ */
+export function parsePriceRule(
+  body: Record<string, unknown>,
+  existing?: PriceRuleInput
+): { rule: PriceRuleInput } | { error: string } {
+  const rule: PriceRuleInput = existing
+    ? { ...existing, markets: [...existing.markets] }
+    : { type: "move", scope: "all", markets: [], direction: "any", enabled: true };
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string") {
+      return { error: "name must be a string" };
+    }
+    rule.name = body.name.trim() || undefined;
+  }
+
+  if (body.type !== undefined) {
+    if (body.type !== "move" && body.type !== "cross") {
+      return { error: 'type must be "move" or "cross"' };
+    }
+    rule.type = body.type;
+  } else if (!existing) {
+    return { error: "type is required" };
+  }
+
+  if (body.scope !== undefined) {
+    if (body.scope !== "all" && body.scope !== "watchlist" && body.scope !== "held") {
+      return { error: 'scope must be "all", "watchlist" or "held"' };
+    }
+    rule.scope = body.scope;
+  }
+
+  if (body.markets !== undefined) {
+    if (
+      !Array.isArray(body.markets) ||
+      body.markets.some((m) => typeof m !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(m))
+    ) {
+      return { error: "markets must be an array of market addresses" };
+    }
+    rule.markets = Array.from(new Set((body.markets as string[]).map((m) => m.toLowerCase())));
+  }
+
+  if (body.direction !== undefined) {
+    if (body.direction !== "up" && body.direction !== "down" && body.direction !== "any") {
+      return { error: 'direction must be "up", "down" or "any"' };
+    }
+    rule.direction = body.direction;
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") {
+      return { error: "enabled must be a boolean" };
+    }
+    rule.enabled = body.enabled;
+  }
+
+  if (body.threshold !== undefined) {
+    if (!isPrice(body.threshold) || body.threshold === 0) {
+      return { error: "threshold must be a number between 0 and 1" };
+    }
+    rule.threshold = body.threshold;
+  }
+
+  if (body.windowMinutes !== undefined) {
+    if (
+      typeof body.windowMinutes !== "number" ||
+      !Number.isInteger(body.windowMinutes) ||
+      body.windowMinutes < 1
+    ) {
+      return { error: "windowMinutes must be a positive integer" };
+    }
+    rule.windowMinutes = body.windowMinutes;
+  }
+
+  if (body.level !== undefined) {
+    if (!isPrice(body.level)) {
+      return { error: "level must be a number between 0 and 1" };
+    }
+    rule.level = body.level;
+  }
+
+  if (rule.type === "move" && (rule.threshold === undefined || rule.windowMinutes === undefined)) {
+    return { error: "move rules require threshold and windowMinutes" };
+  }
+  if (rule.type === "cross" && rule.level === undefined) {
+    return { error: "cross rules require level" };
+  }
+  if (rule.scope === "watchlist" && rule.markets.length === 0) {
+    return { error: "watchlist rules require at least one market" };
+  }
+
+  return { rule };
+}
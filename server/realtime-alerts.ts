@@ -0,0 +1,114 @@
+import { invalidateCache } from "../lib/for-wenbo-main/cache";
+import { checkForNewMarkets } from "./market-monitor";
+import { checkPriceMovements } from "./price-monitor";
+import { checkForResolvedMarkets } from "./resolution-monitor";
+import { onLedgerEvent, startLedgerStream, stopLedgerStream } from "./ledger-stream";
+
+// Wait for a burst of events to settle before running a check
+const SETTLE_MS = 5 * 1000;
+
+// Price checks record a price sample each run, so run them at most once a minute
+const MIN_PRICE_CHECK_INTERVAL_MS = 60 * 1000;
+
+const WALLET_CACHE_TYPES = ["wallet-portfolio", "wallet-positions", "wallet-resolutions", "wallet-cash"];
+
+let stopHandlers: Array<() => void> = [];
+
+/**
+ * Build a trigger that runs `check` once events stop arriving for SETTLE_MS
+ * Runs never overlap; a trigger during a run schedules one more run after it
+ */
+function createTrigger(name: string, check: () => Promise<unknown>, minIntervalMs = 0): () => void {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let rerun = false;
+  let lastRun = 0;
+
+  const run = async () => {
+    timer = null;
+    running = true;
+    lastRun = Date.now();
+    try {
+      console.log(`[REALTIME] Running ${name} after ledger activity`);
+      await check();
+    } catch (error) {
+      console.error(`[REALTIME] ❌ ${name} failed:`, error);
+    } finally {
+      running = false;
+      if (rerun) {
+        rerun = false;
+        trigger();
+      }
+    }
+  };
+
+  const trigger = () => {
+    if (running) {
+      rerun = true;
+      return;
+    }
+    if (timer) {
+      clearTimeout(timer);
+    }
+    const wait = Math.max(SETTLE_MS, lastRun + minIntervalMs - Date.now());
+    timer = setTimeout(run, wait);
+  };
+
+  return trigger;
+}
+
+/**
+ * Run the market, resolution and price checks within seconds of matching ledger rows,
+ * and drop cached wallet data as soon as the wallet trades or claims
+ * The interval monitors keep running as a fallback
+ */
+export function startRealtimeAlerts(): void {
+  if (stopHandlers.length > 0) {
+    console.log("Realtime alerts are already running");
+    return;
+  }
+
+  const checkMarkets = createTrigger("market check", checkForNewMarkets);
+  const checkResolutions = createTrigger("resolution check", async () => {
+    await invalidateCache("wallet-resolutions");
+    await checkForResolvedMarkets();
+  });
+  const checkPrices = createTrigger(
+    "price check",
+    async () => {
+      await invalidateCache("outcome-prices");
+      await checkPriceMovements();
+    },
+    MIN_PRICE_CHECK_INTERVAL_MS
+  );
+
+  const invalidateWallet = async (wallet: string) => {
+    for (const type of WALLET_CACHE_TYPES) {
+      await invalidateCache(type, [wallet.toLowerCase()]);
+    }
+  };
+
+  stopHandlers = [
+    onLedgerEvent("new-market", checkMarkets),
+    onLedgerEvent("finalise", checkResolutions),
+    onLedgerEvent("trade", (event) => {
+      checkPrices();
+      return invalidateWallet(event.user_address);
+    }),
+    onLedgerEvent("claim", (event) => invalidateWallet(event.user_address)),
+  ];
+
+  startLedgerStream();
+  console.log("Realtime alerts started");
+}
+
+/**
+ * Stop the realtime alerts and the ledger stream
+ */
+export function stopRealtimeAlerts(): void {
+  stopLedgerStream();
+  for (const stop of stopHandlers) {
+    stop();
+  }
+  stopHandlers = [];
+}
@@ -0,0 +1,216 @@
+import {
+  getWalletResolvedMarkets,
+  ResolvedMarketHolding,
+  ResolvedTokenHolding,
+} from "../lib/for-wenbo-main/queries/wallet";
+import { getStorage } from "./storage";
+import { getTrackedWallets, TrackedWallet, walletDisplayName } from "./tracked-wallets";
+import { formatCurrency, formatWalletField } from "./format";
+import { buildIdempotencyKey, notify } from "./notifier";
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Resolved markets already seen for a wallet
+ */
+interface ResolutionAlertState {
+  markets: string[]; // Lowercase market addresses
+  initializedAt: string;
+}
+
+export interface ResolutionCheckResult {
+  wallet: string;
+  status: "alerted" | "unchanged" | "initialized" | "failed";
+  markets?: string[]; // Newly resolved markets that were alerted
+  error?: string;
+}
+
+function alertStateKey(walletAddress: string): string {
+  return `resolution-alerts:${walletAddress.toLowerCase()}`;
+}
+
+/**
+ * Name an outcome token by its symbol, falling back to its id
+ */
+function formatToken(token: ResolvedTokenHolding): string {
+  return token.symbol ? `${token.symbol} (Token: ${token.token_id})` : `Token ${token.token_id}`;
+}
+
+/**
+ * Format one resolved market for a notification
+ */
+function formatResolvedMarket(market: ResolvedMarketHolding): string {
+  const marketShort = `${market.market_address.slice(0, 6)}...${market.market_address.slice(-4)}`;
+  const winners = market.tokens.filter((t) => t.is_winning).map(formatToken);
+  const winningOutcome = winners.length > 0 ? winners.join(", ") : `answer ${market.answer} (not held)`;
+  const sides = market.tokens
+    .map(
+      (token) =>
+        `   ${token.is_winning ? "✅" : "❌"} ${formatToken(token)}: Qty ${token.quantity.toFixed(4)}` +
+        (token.is_winning ? ` @ $${token.payout_per_token.toFixed(4)}` : "")
+    )
+    .join("\n");
+  const claimStatus = market.needs_claim
+    ? `⚠️ Needs claim (${formatCurrency(market.unclaimed_payout)} unclaimed)`
+    : market.expected_payout > 0
+    ? "✅ Claimed"
+    : "Nothing to claim";
+
+  return `*${market.title || marketShort}* (\`${market.market_address}\`)
+   Winning outcome: ${winningOutcome}
+${sides}
+   Expected payout: ${formatCurrency(market.expected_payout)} | ${claimStatus}`;
+}
+
+/**
+ * Send an alert listing markets that resolved since the last check
+ */
+async function sendResolutionAlert(
+  wallet: TrackedWallet,
+  markets: ResolvedMarketHolding[]
+): Promise<void> {
+  const expectedPayout = markets.reduce((sum, m) => sum + m.expected_payout, 0);
+  const idempotencyKey = buildIdempotencyKey("market.resolved", [
+    wallet.address,
+    ...markets.map((m) => m.market_address.toLowerCase()),
+  ]);
+
+  await notify(
+    {
+      event: "market.resolved",
+      title: "🏁 Market Resolved",
+      summary: `🏁 ${markets.length} market(s) resolved - ${walletDisplayName(wallet)} (${formatCurrency(expectedPayout)} payout)`,
+      blocks: [
+        {
+          type: "fields",
+          fields: [
+            formatWalletField(wallet),
+            `*Expected Payout:*\n*${formatCurrency(expectedPayout)}*`,
+          ],
+        },
+        { type: "divider" },
+        ...markets.map((market) => ({
+          type: "text" as const,
+          text: formatResolvedMarket(market),
+        })),
+      ],
+    },
+    { idempotencyKey }
+  );
+}
+
+/**
+ * Look for newly resolved markets held by one wallet and alert on them
+ * The first check of a wallet only records its resolved markets, so adding
+ * a wallet does not replay its whole history
+ */
+async function checkSingleWallet(wallet: TrackedWallet): Promise<ResolutionCheckResult> {
+  const storage = await getStorage();
+  const key = alertStateKey(wallet.address);
+  const state = await storage.get<ResolutionAlertState>(key);
+  const resolved = await getWalletResolvedMarkets(wallet.address);
+
+  if (!state) {
+    await storage.set<ResolutionAlertState>(key, {
+      markets: resolved.map((m) => m.market_address.toLowerCase()),
+      initializedAt: new Date().toISOString(),
+    });
+    console.log(
+      `[RESOLUTION MONITOR] Initialized ${wallet.address} with ${resolved.length} resolved market(s)`
+    );
+    return { wallet: wallet.address, status: "initialized" };
+  }
+
+  const seen = new Set(state.markets);
+  const newlyResolved = resolved.filter((m) => !seen.has(m.market_address.toLowerCase()));
+
+  if (newlyResolved.length === 0) {
+    return { wallet: wallet.address, status: "unchanged" };
+  }
+
+  console.log(
+    `[RESOLUTION MONITOR] ${newlyResolved.length} newly resolved market(s) for ${wallet.address}`
+  );
+
+  await sendResolutionAlert(wallet, newlyResolved);
+
+  // Only mark markets as seen once the alert is queued in the outbox
+  const markets = newlyResolved.map((m) => m.market_address.toLowerCase());
+  await storage.set<ResolutionAlertState>(key, {
+    ...state,
+    markets: [...state.markets, ...markets],
+  });
+
+  return { wallet: wallet.address, status: "alerted", markets };
+}
+
+/**
+ * Check every enabled tracked wallet for markets that resolved since the last run
+ * A failing wallet is recorded in the results and does not stop the others
+ */
+export async function checkForResolvedMarkets(): Promise<ResolutionCheckResult[]> {
+  console.log("[RESOLUTION MONITOR] Checking tracked wallets for resolved markets...");
+
+  const wallets = (await getTrackedWallets()).filter((w) => w.enabled);
+  const results: ResolutionCheckResult[] = [];
+
+  for (const wallet of wallets) {
+    try {
+      results.push(await checkSingleWallet(wallet));
+    } catch (error) {
+      console.error(`[RESOLUTION MONITOR] ❌ Error checking wallet ${wallet.address}:`, error);
+      results.push({
+        wallet: wallet.address,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const alerted = results.filter((r) => r.status === "alerted").length;
+  console.log(
+    `[RESOLUTION MONITOR] Finished: ${alerted} of ${wallets.length} wallet(s) had new resolutions`
+  );
+
+  return results;
+}
+
+let intervalId: NodeJS.Timeout | null = null;
+
+/**
+ * Start the resolution monitoring service
+ * Checks tracked wallets for resolved markets every 5 minutes
+ */
+export function startResolutionMonitoring(): void {
+  if (intervalId) {
+    console.log("Resolution monitoring is already running");
+    return;
+  }
+
+  console.log("Starting resolution monitoring service (checking every 5 minutes)");
+
+  // Run immediately on start
+  checkForResolvedMarkets().catch((error) => {
+    console.error("Initial resolution check failed:", error);
+  });
+
+  // Then run every 5 minutes
+  intervalId = setInterval(() => {
+    checkForResolvedMarkets().catch((error) => {
+      console.error("Resolution check failed:", error);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log("Resolution monitoring service started");
+}
+
+/**
+ * Stop the resolution monitoring service
+ */
+export function stopResolutionMonitoring(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("Resolution monitoring service stopped");
+  }
+}
@@ -0,0 +1,281 @@
+import { getOutcomePrices, OutcomePrice } from "../lib/for-wenbo-main/queries/market";
+import { getWalletPositions, WalletPosition } from "../lib/for-wenbo-main/queries/wallet";
+import { bitmaskIndexes, decodeOutcome, outcomePayout, parseBitmask } from "../lib/for-wenbo-main/outcome";
+import { getOrCreate } from "../lib/for-wenbo-main/queries/utils";
+import { toAmount } from "../lib/for-wenbo-main/valuation";
+import { GroupMember } from "./group-portfolio";
+
+export interface ScenarioWallet {
+  wallet: string;
+  label?: string;
+  payout: number; // What the wallet's tokens in the market would pay out
+  change: number; // payout - current_value
+}
+
+// Markets with up to this many outcomes have every split answer simulated (2^n - 1 answers);
+// larger ones only have their single-outcome answers
+const MAX_SPLIT_OUTCOMES = parseInt(process.env.SIMULATOR_MAX_SPLIT_OUTCOMES || "") || 10;
+
+/**
+ * The market resolving with one or more outcomes true
+ */
+export interface ResolutionScenario {
+  answer: string; // Answer bitmask of the true outcomes
+  outcomes: number[]; // Outcome indexes that resolve true; several for a split resolution
+  symbol: string | null; // Symbol of the token that covers exactly these outcomes, if any
+  payout: number;
+  change: number;
+  wallets: ScenarioWallet[];
+}
+
+export interface MarketSimulation {
+  market_address: string;
+  title: string | null;
+  current_value: number; // Open positions in the market at the current price
+  wallets: Array<{ wallet: string; label?: string; current_value: number }>;
+  scenarios: ResolutionScenario[]; // Best first
+  best: ResolutionScenario;
+  worst: ResolutionScenario;
+  split_resolutions: boolean; // Whether answers with several true outcomes were simulated
+}
+
+export interface SimulationWalletError {
+  wallet: string;
+  label?: string;
+  error: string;
+}
+
+export interface MarketSimulationResult {
+  market: MarketSimulation;
+  errors: SimulationWalletError[]; // Wallets that failed to load and are left out
+}
+
+export interface PortfolioSimulationResult {
+  markets: Array<{
+    market_address: string;
+    title: string | null;
+    current_value: number;
+    best: { outcomes: number[]; symbol: string | null; change: number };
+    worst: { outcomes: number[]; symbol: string | null; change: number };
+    split_resolutions: boolean;
+  }>;
+  current_value: number; // Open positions across all markets
+  best_case: number; // Change in value if every market resolves the wallets' best way
+  worst_case: number; // Change in value if every market resolves the wallets' worst way
+  errors: SimulationWalletError[];
+}
+
+export interface MemberPositions {
+  wallet: GroupMember;
+  positions: WalletPosition[]; // Open positions only
+}
+
+/**
+ * Load the open positions of each wallet; failing wallets are returned as errors
+ */
+async function loadOpenPositions(
+  wallets: GroupMember[]
+): Promise<{ members: MemberPositions[]; errors: SimulationWalletError[] }> {
+  const members: MemberPositions[] = [];
+  const errors: SimulationWalletError[] = [];
+
+  // Positions per wallet in the order given, null where loading failed
+  const results = await Promise.all(
+    wallets.map(async (wallet) => {
+      try {
+        return await getWalletPositions(wallet.address);
+      } catch (error) {
+        console.error(`[SIMULATOR] Error fetching positions for ${wallet.address}:`, error);
+        errors.push({
+          wallet: wallet.address,
+          label: wallet.label,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        return null;
+      }
+    })
+  );
+
+  results.forEach((positions, i) => {
+    if (positions) {
+      members.push({
+        wallet: wallets[i],
+        positions: positions.filter((p) => !p.is_resolved && p.quantity > 0),
+      });
+    }
+  });
+  return { members, errors };
+}
+
+/**
+ * List the possible answers over a set of outcomes: every non-empty combination
+ * when there are at most MAX_SPLIT_OUTCOMES, otherwise only the single outcomes
+ */
+function possibleAnswers(outcomes: number[]): { answers: number[][]; split: boolean } {
+  if (outcomes.length > MAX_SPLIT_OUTCOMES) {
+    return { answers: outcomes.map((outcome) => [outcome]), split: false };
+  }
+
+  const answers: number[][] = [];
+  for (let combination = 1; combination < 2 ** outcomes.length; combination++) {
+    answers.push(outcomes.filter((_, i) => (combination >> i) & 1));
+  }
+  return { answers, split: true };
+}
+
+/**
+ * Value every possible resolution of one market for the given wallets, split
+ * resolutions included (up to MAX_SPLIT_OUTCOMES outcomes)
+ * Each token pays what outcome.ts decodes for the hypothetical answer; payout_hmr
+ * is not known before resolution, so the even split of the answer is used
+ * @param tokens - The market's outcome tokens, e.g. from getOutcomePrices or getMarketsWithMetrics
+ */
+export function simulateMarket(
+  marketAddress: string,
+  title: string | null,
+  tokens: Array<{ token_id: string; symbol?: string }>,
+  members: MemberPositions[]
+): MarketSimulation {
+  const market = marketAddress.toLowerCase();
+  const held = members.map(({ wallet, positions }) => ({
+    wallet,
+    positions: positions.filter((p) => p.market_address.toLowerCase() === market),
+  }));
+
+  // Outcome indexes covered by any token of the market, including tokens only held
+  const outcomes = new Set<number>();
+  for (const tokenId of [
+    ...tokens.map((t) => t.token_id),
+    ...held.flatMap(({ positions }) => positions.map((p) => p.token_id)),
+  ]) {
+    bitmaskIndexes(parseBitmask(tokenId)).forEach((index) => outcomes.add(index));
+  }
+
+  // Symbols by the bitmask of the outcomes each token covers
+  const symbols = new Map<string, string | null>();
+  for (const token of tokens) {
+    symbols.set(parseBitmask(token.token_id).toString(), token.symbol ?? null);
+  }
+
+  const currentValues = held.map(({ wallet, positions }) => ({
+    wallet: wallet.address,
+    label: wallet.label,
+    current_value: positions.reduce((sum, p) => sum + p.value, 0),
+  }));
+  const currentValue = currentValues.reduce((sum, w) => sum + w.current_value, 0);
+
+  const { answers, split } = possibleAnswers(Array.from(outcomes).sort((a, b) => a - b));
+  const scenarios = answers
+    .map((trueOutcomes): ResolutionScenario => {
+      const answer = trueOutcomes
+        .reduce((mask, outcome) => mask | (BigInt(1) << BigInt(outcome)), BigInt(0))
+        .toString();
+      const wallets = held.map(({ wallet, positions }, i) => {
+        const payout = positions.reduce(
+          (sum, p) => sum + p.quantity * toAmount(outcomePayout(decodeOutcome(p.token_id, answer))),
+          0
+        );
+        return {
+          wallet: wallet.address,
+          label: wallet.label,
+          payout,
+          change: payout - currentValues[i].current_value,
+        };
+      });
+      const payout = wallets.reduce((sum, w) => sum + w.payout, 0);
+      return {
+        answer,
+        outcomes: trueOutcomes,
+        symbol: symbols.get(answer) ?? null,
+        payout,
+        change: payout - currentValue,
+        wallets,
+      };
+    })
+    // Equal changes list the answer with fewer true outcomes first
+    .sort((a, b) => b.change - a.change || a.outcomes.length - b.outcomes.length);
+
+  return {
+    market_address: marketAddress,
+    title,
+    current_value: currentValue,
+    wallets: currentValues,
+    scenarios,
+    best: scenarios[0],
+    worst: scenarios[scenarios.length - 1],
+    split_resolutions: split,
+  };
+}
+
+/**
+ * @description What the wallets' positions in one open market would pay under each
+ *              possible answer, and the resulting change in their value
+ * @returns null if the market has resolved or has no ledger entries
+ */
+export async function simulateMarketResolution(
+  wallets: GroupMember[],
+  marketAddress: string
+): Promise<MarketSimulationResult | null> {
+  const market = marketAddress.toLowerCase();
+  const tokens = (await getOutcomePrices()).filter((t) => t.market_address.toLowerCase() === market);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const { members, errors } = await loadOpenPositions(wallets);
+  return {
+    market: simulateMarket(tokens[0].market_address, tokens[0].title, tokens, members),
+    errors,
+  };
+}
+
+/**
+ * @description Best and worst resolution of every open market the wallets hold,
+ *              and the portfolio-wide best and worst case
+ * @dev markets resolve independently, so the portfolio cases are the sums of the
+ *      per-market best and worst changes
+ */
+export async function simulatePortfolioResolutions(
+  wallets: GroupMember[]
+): Promise<PortfolioSimulationResult> {
+  const [prices, { members, errors }] = await Promise.all([
+    getOutcomePrices(),
+    loadOpenPositions(wallets),
+  ]);
+
+  const tokensByMarket = new Map<string, OutcomePrice[]>();
+  for (const token of prices) {
+    getOrCreate(tokensByMarket, token.market_address.toLowerCase(), () => []).push(token);
+  }
+
+  const heldMarkets = new Map<string, string>();
+  for (const { positions } of members) {
+    for (const position of positions) {
+      heldMarkets.set(position.market_address.toLowerCase(), position.market_address);
+    }
+  }
+
+  const markets = Array.from(heldMarkets.entries())
+    .map(([market, address]) => {
+      const tokens = tokensByMarket.get(market) || [];
+      return simulateMarket(address, tokens[0]?.title ?? null, tokens, members);
+    })
+    .filter((simulation) => simulation.scenarios.length > 0)
+    .map(({ market_address, title, current_value, best, worst, split_resolutions }) => ({
+      market_address,
+      title,
+      current_value,
+      best: { outcomes: best.outcomes, symbol: best.symbol, change: best.change },
+      worst: { outcomes: worst.outcomes, symbol: worst.symbol, change: worst.change },
+      split_resolutions,
+    }))
+    .sort((a, b) => a.worst.change - b.worst.change);
+
+  return {
+    markets,
+    current_value: markets.reduce((sum, m) => sum + m.current_value, 0),
+    best_case: markets.reduce((sum, m) => sum + m.best.change, 0),
+    worst_case: markets.reduce((sum, m) => sum + m.worst.change, 0),
+    errors,
+  };
+}
@@ -0,0 +1,357 @@
+import { getMarketsWithMetrics, MarketMetrics } from "../lib/for-wenbo-main/queries/market";
+import {
+  getWalletPortfolioBreakdown,
+  getWalletPositions,
+  WalletPortfolioBreakdown,
+  WalletPosition,
+} from "../lib/for-wenbo-main/queries/wallet";
+import { getOrCreate } from "../lib/for-wenbo-main/queries/utils";
+import { simulateMarket } from "./resolution-simulator";
+import { getStorage } from "./storage";
+import { TrackedWallet, walletDisplayName } from "./tracked-wallets";
+import { formatCurrency, formatWalletField } from "./format";
+import { buildIdempotencyKey, notify } from "./notifier";
+
+/**
+ * Risk limits; a limit left unset is reported on but never alerted
+ */
+export interface RiskLimits {
+  maxMarketShare?: number; // Largest share of portfolio value in one market (0-1)
+  maxOutcomeShare?: number; // Largest share of portfolio value in one outcome token (0-1)
+  maxMarketLoss?: number; // Largest loss (USD) if a single market resolves against us
+  maxIlliquidShare?: number; // Largest share of portfolio value in illiquid markets (0-1)
+  minCashShare?: number; // Smallest share of portfolio value held as cash (0-1)
+}
+
+export type RiskLimit = keyof RiskLimits;
+
+function readLimit(name: string): number | undefined {
+  const value = parseFloat(process.env[name] || "");
+  return Number.isFinite(value) ? value : undefined;
+}
+
+export const RISK_LIMITS: RiskLimits = {
+  maxMarketShare: readLimit("RISK_MAX_MARKET_SHARE"),
+  maxOutcomeShare: readLimit("RISK_MAX_OUTCOME_SHARE"),
+  maxMarketLoss: readLimit("RISK_MAX_MARKET_LOSS"),
+  maxIlliquidShare: readLimit("RISK_MAX_ILLIQUID_SHARE"),
+  minCashShare: readLimit("RISK_MIN_CASH_SHARE"),
+};
+
+// Markets with less total_liquidity than this (USD) count as illiquid
+const ILLIQUID_LIQUIDITY = readLimit("RISK_ILLIQUID_LIQUIDITY") ?? 1000;
+
+export interface MarketExposure {
+  market_address: string;
+  title: string | null;
+  value: number; // Open positions in the market at the current price
+  share: number; // Of portfolio value
+  total_liquidity: number | null; // null if the market has no metrics
+  illiquid: boolean;
+  worst_case_loss: number; // Value lost if the market resolves to our worst outcome
+}
+
+export interface OutcomeExposure {
+  market_address: string;
+  token_id: string;
+  symbol: string | null;
+  value: number;
+  share: number; // Of portfolio value
+}
+
+export interface RiskBreach {
+  limit: RiskLimit;
+  value: number;
+  threshold: number;
+  market_address?: string;
+  token_id?: string;
+  message: string;
+}
+
+export interface RiskReport {
+  portfolio_value: number; // Total of the portfolio breakdown
+  cash: number | null; // null if the balance could not be read
+  at_risk_value: number; // Open positions, which depend on how their markets resolve
+  unclaimed_winnings: number;
+  cash_share: number | null; // null if the balance could not be read
+  at_risk_share: number;
+  markets: MarketExposure[]; // Largest first
+  outcomes: OutcomeExposure[]; // Largest first
+  largest_market_loss: { market_address: string; title: string | null; loss: number } | null;
+  illiquid_value: number;
+  illiquid_share: number;
+  illiquid_threshold: number; // total_liquidity below which a market counts as illiquid
+  limits: RiskLimits;
+  breaches: RiskBreach[];
+  warnings: string[]; // From the portfolio breakdown, plus limits that could not be checked
+}
+
+function shareOf(value: number, total: number): number {
+  return total > 0 ? value / total : 0;
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+// Limits measured against the portfolio total, which is understated without the cash balance
+const SHARE_LIMITS: RiskLimit[] = ["maxMarketShare", "maxOutcomeShare", "maxIlliquidShare", "minCashShare"];
+
+function withoutShareLimits(limits: RiskLimits): RiskLimits {
+  return { maxMarketLoss: limits.maxMarketLoss };
+}
+
+function skippedLimitWarnings(cash: number | null, limits: RiskLimits): string[] {
+  const skipped = SHARE_LIMITS.filter((limit) => limits[limit] !== undefined);
+  if (cash !== null || skipped.length === 0) return [];
+  return [`${skipped.join(", ")} not checked because the cash balance could not be read`];
+}
+
+/**
+ * Compare a report against the limits
+ * Share limits are skipped when the cash balance is unknown, since every share would be inflated
+ */
+function findBreaches(report: Omit<RiskReport, "breaches">, limits: RiskLimits): RiskBreach[] {
+  const breaches: RiskBreach[] = [];
+  const { maxMarketShare, maxOutcomeShare, maxMarketLoss, maxIlliquidShare, minCashShare } =
+    report.cash === null ? withoutShareLimits(limits) : limits;
+
+  if (maxMarketShare !== undefined) {
+    for (const market of report.markets.filter((m) => m.share > maxMarketShare)) {
+      breaches.push({
+        limit: "maxMarketShare",
+        value: market.share,
+        threshold: maxMarketShare,
+        market_address: market.market_address,
+        message: `${formatShare(market.share)} of the portfolio is in ${market.title || market.market_address} (limit ${formatShare(maxMarketShare)})`,
+      });
+    }
+  }
+  if (maxOutcomeShare !== undefined) {
+    for (const outcome of report.outcomes.filter((o) => o.share > maxOutcomeShare)) {
+      breaches.push({
+        limit: "maxOutcomeShare",
+        value: outcome.share,
+        threshold: maxOutcomeShare,
+        market_address: outcome.market_address,
+        token_id: outcome.token_id,
+        message: `${formatShare(outcome.share)} of the portfolio is in ${outcome.symbol || `token ${outcome.token_id}`} of ${outcome.market_address} (limit ${formatShare(maxOutcomeShare)})`,
+      });
+    }
+  }
+  if (maxMarketLoss !== undefined) {
+    for (const market of report.markets.filter((m) => m.worst_case_loss > maxMarketLoss)) {
+      breaches.push({
+        limit: "maxMarketLoss",
+        value: market.worst_case_loss,
+        threshold: maxMarketLoss,
+        market_address: market.market_address,
+        message: `${market.title || market.market_address} would lose ${formatCurrency(market.worst_case_loss)} if it resolves against us (limit ${formatCurrency(maxMarketLoss)})`,
+      });
+    }
+  }
+  if (maxIlliquidShare !== undefined && report.illiquid_share > maxIlliquidShare) {
+    breaches.push({
+      limit: "maxIlliquidShare",
+      value: report.illiquid_share,
+      threshold: maxIlliquidShare,
+      message: `${formatShare(report.illiquid_share)} of the portfolio is in markets with under ${formatCurrency(report.illiquid_threshold)} liquidity (limit ${formatShare(maxIlliquidShare)})`,
+    });
+  }
+  if (
+    minCashShare !== undefined &&
+    report.cash_share !== null &&
+    report.portfolio_value > 0 &&
+    report.cash_share < minCashShare
+  ) {
+    breaches.push({
+      limit: "minCashShare",
+      value: report.cash_share,
+      threshold: minCashShare,
+      message: `Cash is ${formatShare(report.cash_share)} of the portfolio (minimum ${formatShare(minCashShare)})`,
+    });
+  }
+
+  return breaches;
+}
+
+/**
+ * @description Concentration and exposure of one wallet's portfolio
+ * @dev shares are of the portfolio total (cash + positions + unclaimed winnings).
+ *      A market's worst-case loss is its current value minus what it would pay
+ *      under its worst outcome (see resolution-simulator.ts)
+ */
+export function buildRiskReport(
+  walletAddress: string,
+  breakdown: WalletPortfolioBreakdown,
+  positions: WalletPosition[],
+  markets: MarketMetrics[],
+  limits: RiskLimits = RISK_LIMITS
+): RiskReport {
+  const open = positions.filter((p) => !p.is_resolved && p.quantity > 0);
+  const total = breakdown.total;
+  const cash = breakdown.cash;
+
+  const metrics = new Map(markets.map((m) => [m.market_address.toLowerCase(), m]));
+  const byMarket = new Map<string, WalletPosition[]>();
+  for (const position of open) {
+    getOrCreate(byMarket, position.market_address.toLowerCase(), () => []).push(position);
+  }
+
+  const marketExposures: MarketExposure[] = Array.from(byMarket.values())
+    .map((held) => {
+      const address = held[0].market_address;
+      const market = metrics.get(address.toLowerCase());
+      const value = held.reduce((sum, p) => sum + p.value, 0);
+      const simulation = simulateMarket(address, market?.title ?? null, market?.outcome_tokens || [], [
+        { wallet: { address: walletAddress }, positions: held },
+      ]);
+      const worst = simulation.scenarios.length > 0 ? simulation.worst.change : 0;
+      return {
+        market_address: address,
+        title: market?.title ?? null,
+        value,
+        share: shareOf(value, total),
+        total_liquidity: market ? market.total_liquidity : null,
+        illiquid: !market || market.total_liquidity < ILLIQUID_LIQUIDITY,
+        worst_case_loss: Math.max(0, -worst),
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+
+  const outcomes: OutcomeExposure[] = open
+    .map((position) => {
+      const token = metrics
+        .get(position.market_address.toLowerCase())
+        ?.outcome_tokens.find((t) => t.token_id === position.token_id);
+      return {
+        market_address: position.market_address,
+        token_id: position.token_id,
+        symbol: token?.symbol ?? null,
+        value: position.value,
+        share: shareOf(position.value, total),
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+
+  const atRisk = marketExposures.reduce((sum, m) => sum + m.value, 0);
+  const illiquid = marketExposures.filter((m) => m.illiquid).reduce((sum, m) => sum + m.value, 0);
+  const largestLoss = marketExposures.reduce<MarketExposure | null>(
+    (largest, m) => (m.worst_case_loss > (largest?.worst_case_loss ?? 0) ? m : largest),
+    null
+  );
+
+  const report = {
+    portfolio_value: total,
+    cash,
+    at_risk_value: atRisk,
+    unclaimed_winnings: breakdown.unclaimed_winnings,
+    cash_share: cash === null ? null : shareOf(cash, total),
+    at_risk_share: shareOf(atRisk, total),
+    markets: marketExposures,
+    outcomes,
+    largest_market_loss: largestLoss
+      ? {
+          market_address: largestLoss.market_address,
+          title: largestLoss.title,
+          loss: largestLoss.worst_case_loss,
+        }
+      : null,
+    illiquid_value: illiquid,
+    illiquid_share: shareOf(illiquid, total),
+    illiquid_threshold: ILLIQUID_LIQUIDITY,
+    limits,
+    warnings: [...breakdown.warnings, ...skippedLimitWarnings(cash, limits)],
+  };
+  return { ...report, breaches: findBreaches(report, limits) };
+}
+
+/**
+ * @description Fetch a wallet's portfolio, positions and market metrics and build its risk report
+ */
+export async function getWalletRisk(walletAddress: string): Promise<RiskReport> {
+  const [breakdown, positions, markets] = await Promise.all([
+    getWalletPortfolioBreakdown(walletAddress),
+    getWalletPositions(walletAddress),
+    getMarketsWithMetrics(),
+  ]);
+  return buildRiskReport(walletAddress, breakdown, positions, markets);
+}
+
+/**
+ * Whether any limit is configured, so the monitor can skip fetching market metrics
+ */
+export function hasRiskLimits(limits: RiskLimits = RISK_LIMITS): boolean {
+  return Object.values(limits).some((limit) => limit !== undefined);
+}
+
+/**
+ * Breaches already alerted for a wallet, so a standing breach is not re-sent every check
+ */
+interface RiskAlertState {
+  breaches: string[]; // breachKey of each breach
+}
+
+function riskStateKey(walletAddress: string): string {
+  return `risk-alerts:${walletAddress.toLowerCase()}`;
+}
+
+function breachKey(breach: RiskBreach): string {
+  return [breach.limit, breach.market_address?.toLowerCase() ?? "", breach.token_id ?? ""].join(":");
+}
+
+/**
+ * @description Alert on risk limits newly breached by a wallet
+ * @dev a breach is alerted when it first appears; once it clears, it alerts again
+ *      the next time it is breached
+ * @returns the breaches that were newly alerted
+ */
+export async function checkRiskLimits(
+  wallet: TrackedWallet,
+  report: RiskReport
+): Promise<RiskBreach[]> {
+  const storage = await getStorage();
+  const key = riskStateKey(wallet.address);
+  const state = (await storage.get<RiskAlertState>(key)) || { breaches: [] };
+  const alerted = new Set(state.breaches);
+  const fresh = report.breaches.filter((b) => !alerted.has(breachKey(b)));
+
+  if (fresh.length > 0) {
+    console.log(`[RISK] ${fresh.length} new limit breach(es) for ${wallet.address}`);
+    const keys = fresh.map(breachKey).sort();
+    await notify(
+      {
+        event: "wallet.risk",
+        title: "🚨 Risk Limit Breached",
+        summary: `🚨 ${fresh.length} risk limit(s) breached - ${walletDisplayName(wallet)}`,
+        blocks: [
+          {
+            type: "fields",
+            fields: [
+              formatWalletField(wallet),
+              `*Portfolio Value:*\n*${formatCurrency(report.portfolio_value)}*`,
+              `*At Risk:*\n${formatCurrency(report.at_risk_value)} (${formatShare(report.at_risk_share)})`,
+              report.cash === null || report.cash_share === null
+                ? "*Cash:*\n_unavailable_"
+                : `*Cash:*\n${formatCurrency(report.cash)} (${formatShare(report.cash_share)})`,
+            ],
+          },
+          { type: "divider" },
+          { type: "text", text: fresh.map((b) => `⚠️ ${b.message}`).join("\n") },
+        ],
+      },
+      {
+        // Breaches alerted again after clearing get a new key each hour
+        idempotencyKey: buildIdempotencyKey("wallet.risk", [
+          wallet.address.toLowerCase(),
+          new Date().toISOString().slice(0, 13),
+          ...keys,
+        ]),
+      }
+    );
+  }
+
+  // Only record breaches once the alert is queued; cleared breaches are dropped
+  await storage.set<RiskAlertState>(key, { breaches: report.breaches.map(breachKey) });
+  return fresh;
+}
@@ -0,0 +1,289 @@
+import crypto from "crypto";
+import {
+  getWalletPortfolioBreakdown,
+  getWalletPositions,
+  getWalletPositionTotals,
+} from "../lib/for-wenbo-main/queries/wallet";
+import { getMarketsWithMetrics } from "../lib/for-wenbo-main/queries/market";
+import { formatCurrency, formatCurrencyChange, formatPositions, formatWalletField } from "./format";
+import { NotificationBlock } from "./notifier";
+import { toSlackMessage } from "./notifier/slack";
+import {
+  DEFAULT_INTERVAL_MINUTES,
+  getTrackedWallets,
+  saveTrackedWallets,
+  TrackedWallet,
+  walletDisplayName,
+} from "./tracked-wallets";
+
+// Slack recommends rejecting requests older than five minutes to prevent replays
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+
+const MAX_TOP_PAYOFF = 25;
+const MAX_MARKETS_SHOWN = 10;
+
+export interface SlashCommandResponse {
+  response_type: "ephemeral" | "in_channel";
+  text: string;
+  blocks?: object[];
+}
+
+/**
+ * Verify the X-Slack-Signature header of a request
+ * @param rawBody - The request body exactly as received
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  rawBody: string,
+  timestamp: string | undefined,
+  signature: string | undefined
+): boolean {
+  if (!timestamp || !signature) {
+    return false;
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > MAX_REQUEST_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected =
+    "v0=" +
+    crypto
+      .createHmac("sha256", signingSecret)
+      .update(`v0:${timestamp}:${rawBody}`)
+      .digest("hex");
+
+  return (
+    expected.length === signature.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  );
+}
+
+function reply(
+  title: string,
+  summary: string,
+  blocks: NotificationBlock[],
+  responseType: SlashCommandResponse["response_type"] = "in_channel"
+): SlashCommandResponse {
+  return { response_type: responseType, ...toSlackMessage(title, summary, blocks) };
+}
+
+function errorReply(text: string): SlashCommandResponse {
+  return { response_type: "ephemeral", text: `⚠️ ${text}` };
+}
+
+/**
+ * Find a wallet by address or by the label of a tracked wallet (case-insensitive)
+ * Untracked addresses are returned without a label
+ */
+async function resolveWallet(
+  query: string | undefined
+): Promise<Pick<TrackedWallet, "address" | "label"> | null> {
+  if (!query) {
+    return null;
+  }
+
+  const wallets = await getTrackedWallets();
+  if (/^0x[a-fA-F0-9]{40}$/.test(query)) {
+    const address = query.toLowerCase();
+    return wallets.find((w) => w.address === address) || { address };
+  }
+
+  const label = query.toLowerCase();
+  return wallets.find((w) => w.label?.toLowerCase() === label) || null;
+}
+
+async function portfolioCommand(args: string[]): Promise<SlashCommandResponse> {
+  const wallet = await resolveWallet(args.join(" "));
+  if (!wallet) {
+    return errorReply("Usage: `portfolio <address|label>` (labels must belong to a tracked wallet)");
+  }
+
+  const breakdown = await getWalletPortfolioBreakdown(wallet.address);
+  return reply(
+    "💰 Wallet Portfolio",
+    `💰 ${walletDisplayName(wallet)}: ${formatCurrency(breakdown.total)}`,
+    [
+      {
+        type: "fields",
+        fields: [
+          formatWalletField(wallet),
+          `*Total Portfolio Value:*\n*${formatCurrency(breakdown.total)}*`,
+        ],
+      },
+      {
+        type: "fields",
+        fields: [
+          `*Cash:*\n${breakdown.cash === null ? "_unavailable_" : formatCurrency(breakdown.cash)}`,
+          `*Positions Value:*\n${formatCurrency(breakdown.positions_value)}`,
+          `*Unclaimed Winnings:*\n${formatCurrency(breakdown.unclaimed_winnings)}`,
+          `*Losing Positions:*\n${breakdown.losing_positions}`,
+        ],
+      },
+      ...breakdown.warnings.map((warning) => ({ type: "context" as const, text: `⚠️ ${warning}` })),
+    ]
+  );
+}
+
+async function positionsCommand(args: string[]): Promise<SlashCommandResponse> {
+  const wallet = await resolveWallet(args.join(" "));
+  if (!wallet) {
+    return errorReply("Usage: `positions <address|label>` (labels must belong to a tracked wallet)");
+  }
+
+  const [positions, totals] = await Promise.all([
+    getWalletPositions(wallet.address),
+    getWalletPositionTotals(wallet.address),
+  ]);
+  return reply(
+    "📋 Wallet Positions",
+    `📋 ${walletDisplayName(wallet)}: ${positions.length} position(s)`,
+    [
+      { type: "fields", fields: [formatWalletField(wallet), `*Positions:*\n${positions.length}`] },
+      {
+        type: "fields",
+        fields: [
+          `*Cost Basis:*\n${formatCurrency(totals.cost_basis)}`,
+          `*Value:*\n${formatCurrency(totals.value)}`,
+          `*Unrealized PnL:*\n${formatCurrencyChange(totals.unrealized_pnl)}`,
+          `*Total PnL:*\n${formatCurrencyChange(totals.total_pnl)}`,
+        ],
+      },
+      { type: "divider" },
+      { type: "text", text: formatPositions(positions) },
+    ]
+  );
+}
+
+async function marketsCommand(): Promise<SlashCommandResponse> {
+  const markets = await getMarketsWithMetrics();
+  const shown = [...markets]
+    .sort((a, b) => b.total_liquidity - a.total_liquidity)
+    .slice(0, MAX_MARKETS_SHOWN);
+
+  const lines = shown.map((market, index) => {
+    const prices = market.outcome_tokens
+      .map((t) => `${t.symbol || t.token_id} $${t.price.toFixed(4)}`)
+      .join(" | ");
+    return `${index + 1}. *${market.title}*\n   Liquidity: ${formatCurrency(market.total_liquidity)} | ${prices}`;
+  });
+
+  return reply("📈 Unresolved Markets", `📈 ${markets.length} unresolved market(s)`, [
+    {
+      type: "text",
+      text: lines.length > 0 ? lines.join("\n\n") : "_No unresolved markets_",
+    },
+    ...(markets.length > shown.length
+      ? [{ type: "context" as const, text: `_Top ${shown.length} of ${markets.length} by liquidity_` }]
+      : []),
+  ]);
+}
+
+async function topPayoffCommand(args: string[]): Promise<SlashCommandResponse> {
+  const limit = Math.min(parseInt(args[0]) || 10, MAX_TOP_PAYOFF);
+  const markets = await getMarketsWithMetrics();
+
+  const topTokens = markets
+    .flatMap((market) =>
+      market.outcome_tokens.map((token) => ({ ...token, market_title: market.title }))
+    )
+    .sort((a, b) => b.payoff - a.payoff)
+    .slice(0, limit);
+
+  const lines = topTokens.map(
+    (token, index) =>
+      `${index + 1}. *${token.market_title}* - ${token.symbol || `Token ${token.token_id}`}\n   Payoff: ${token.payoff.toFixed(2)}x | Price: $${token.price.toFixed(4)} | Supply: ${token.total_supply.toFixed(2)}`
+  );
+
+  return reply("🎯 Top Payoff Tokens", `🎯 Top ${topTokens.length} payoff tokens`, [
+    { type: "text", text: lines.length > 0 ? lines.join("\n\n") : "_No outcome tokens found_" },
+  ]);
+}
+
+async function trackCommand(args: string[]): Promise<SlashCommandResponse> {
+  const [address, ...labelParts] = args;
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return errorReply("Usage: `track <address> [label]`");
+  }
+
+  const wallets = await getTrackedWallets();
+  const normalizedAddress = address.toLowerCase();
+  if (wallets.some((w) => w.address === normalizedAddress)) {
+    return errorReply(`\`${normalizedAddress}\` is already tracked`);
+  }
+
+  const wallet: TrackedWallet = {
+    address: normalizedAddress,
+    label: labelParts.join(" ").trim() || undefined,
+    tags: [],
+    enabled: true,
+    intervalMinutes: DEFAULT_INTERVAL_MINUTES,
+  };
+  wallets.push(wallet);
+  await saveTrackedWallets(wallets);
+
+  return { response_type: "in_channel", text: `✅ Now tracking *${walletDisplayName(wallet)}* \`${wallet.address}\`` };
+}
+
+async function untrackCommand(args: string[]): Promise<SlashCommandResponse> {
+  const target = await resolveWallet(args.join(" "));
+  const wallets = await getTrackedWallets();
+  const index = target ? wallets.findIndex((w) => w.address === target.address) : -1;
+  if (index === -1) {
+    return errorReply("Usage: `untrack <address|label>` (the wallet must be tracked)");
+  }
+
+  const [removed] = wallets.splice(index, 1);
+  await saveTrackedWallets(wallets);
+
+  return { response_type: "in_channel", text: `🗑️ Stopped tracking *${walletDisplayName(removed)}* \`${removed.address}\`` };
+}
+
+function helpReply(): SlashCommandResponse {
+  return reply(
+    "🤖 42 Bot Commands",
+    "42 Bot commands",
+    [
+      {
+        type: "text",
+        text: [
+          "`portfolio <address|label>` - Portfolio value with cash, positions and unclaimed winnings",
+          "`positions <address|label>` - Top positions of a wallet",
+          "`markets` - Unresolved markets by liquidity",
+          "`top-payoff [n]` - Top n outcome tokens by payoff (default 10)",
+          "`track <address> [label]` - Start tracking a wallet",
+          "`untrack <address|label>` - Stop tracking a wallet",
+        ].join("\n"),
+      },
+    ],
+    "ephemeral"
+  );
+}
+
+/**
+ * Run the subcommand in the text of a slash command, e.g. "portfolio desk-main"
+ */
+export async function runSlashCommand(text: string): Promise<SlashCommandResponse> {
+  const [subcommand, ...args] = text.trim().split(/\s+/).filter(Boolean);
+
+  switch ((subcommand || "").toLowerCase()) {
+    case "portfolio":
+      return portfolioCommand(args);
+    case "positions":
+      return positionsCommand(args);
+    case "markets":
+      return marketsCommand();
+    case "top-payoff":
+      return topPayoffCommand(args);
+    case "track":
+      return trackCommand(args);
+    case "untrack":
+      return untrackCommand(args);
+    case "":
+    case "help":
+      return helpReply();
+    default:
+      return errorReply(`Unknown command \`${subcommand}\`. Try \`help\`.`);
+  }
+}
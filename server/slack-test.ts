@@ -1,119 +1,68 @@
+import { notify, resolveSinks } from "./notifier";
+import { getTrackedWallets, walletDisplayName } from "./tracked-wallets";
+
 /**
- * Send a test message to Slack
+ * Send a deployment test message through the notifier
+ * @throws if no sink is configured for the "deployment" event or delivery fails
  */
 export async function sendSlackTestMessage(): Promise<void> {
-  const slackWebhookUrl = process.env.SLACK_WEBHOOK_URL;
-  
-  console.log(`[SLACK TEST] Checking SLACK_WEBHOOK_URL: ${slackWebhookUrl ? "✅ Configured" : "❌ Not configured"}`);
-  
-  if (!slackWebhookUrl) {
-    console.warn("[SLACK TEST] ⚠️ SLACK_WEBHOOK_URL not configured, skipping test message");
-    throw new Error("SLACK_WEBHOOK_URL environment variable is not set");
-  }
-  
-  // Validate webhook URL format
-  if (!slackWebhookUrl.startsWith("https://hooks.slack.com/services/")) {
-    console.warn(`[SLACK TEST] ⚠️ Invalid webhook URL format. Expected to start with 'https://hooks.slack.com/services/'`);
-    console.warn(`[SLACK TEST] Current URL: ${slackWebhookUrl.substring(0, 50)}...`);
-    throw new Error("Invalid Slack webhook URL format. Must start with 'https://hooks.slack.com/services/'");
+  const sinks = resolveSinks("deployment");
+
+  console.log(`[SLACK TEST] Sinks for deployment message: ${sinks.length > 0 ? sinks.join(", ") : "❌ None configured"}`);
+
+  if (sinks.length === 0) {
+    console.warn("[SLACK TEST] ⚠️ No notification sink configured, skipping test message");
+    throw new Error("No notification sink configured (set SLACK_WEBHOOK_URL or a routing file)");
   }
-  
-  console.log(`[SLACK TEST] Preparing test message payload...`);
 
-  const timestamp = new Date().toISOString();
+  console.log(`[SLACK TEST] Preparing test message...`);
+
+  const wallets = await getTrackedWallets();
+  const enabledWallets = wallets.filter((w) => w.enabled);
+  const monitoredText =
+    enabledWallets.length > 0
+      ? enabledWallets
+          .map((w) => `*${walletDisplayName(w)}* \`${w.address}\` (every ${w.intervalMinutes} min)`)
+          .join("\n")
+      : "_No tracked wallets yet_";
+
   const dateTime = new Date().toLocaleString("en-US", {
     timeZone: "UTC",
     dateStyle: "medium",
     timeStyle: "short",
   });
 
-  const payload = {
-    text: "✅ Deployment Test - 42 Bot Wallet Tracker",
+  const result = await notify({
+    event: "deployment",
+    title: "✅ Deployment Successful",
+    summary: "✅ Deployment Test - 42 Bot Wallet Tracker",
     blocks: [
       {
-        type: "header",
-        text: {
-          type: "plain_text",
-          text: "✅ Deployment Successful",
-        },
-      },
-      {
-        type: "section",
-        text: {
-          type: "mrkdwn",
-          text: "*42 Bot Wallet Tracker* has been successfully deployed!",
-        },
+        type: "text",
+        text: "*42 Bot Wallet Tracker* has been successfully deployed!",
       },
       {
-        type: "section",
-        fields: [
-          {
-            type: "mrkdwn",
-            text: `*Deployment Time:*\n${dateTime} UTC`,
-          },
-          {
-            type: "mrkdwn",
-            text: `*Status:*\n✅ Online`,
-          },
-        ],
+        type: "fields",
+        fields: [`*Deployment Time:*\n${dateTime} UTC`, `*Status:*\n✅ Online`],
       },
       {
-        type: "section",
-        text: {
-          type: "mrkdwn",
-          text: "The wallet monitoring service is now active and will send reports every 5 minutes.",
-        },
+        type: "text",
+        text: "The wallet monitoring service is now active and will report on each tracked wallet at its configured interval.",
       },
+      { type: "divider" },
       {
-        type: "divider",
-      },
-      {
-        type: "section",
-        text: {
-          type: "mrkdwn",
-          text: "*Monitored Wallet:*\n`0x303E912232a80607D08705cc679F7DbfBb9FC6b2`",
-        },
+        type: "text",
+        text: `*Monitored Wallets (${enabledWallets.length}):*\n${monitoredText}`,
       },
     ],
-  };
-
-  try {
-    console.log(`[SLACK TEST] Sending request to Slack webhook...`);
-    console.log(`[SLACK TEST] Webhook URL: ${slackWebhookUrl.substring(0, 30)}...`);
-    
-    const response = await fetch(slackWebhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
-
-    console.log(`[SLACK TEST] Response status: ${response.status} ${response.statusText}`);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[SLACK TEST] ❌ Slack API error response: ${errorText}`);
-      throw new Error(
-        `Slack API error: ${response.status} ${response.statusText} - ${errorText}`
-      );
-    }
+  });
 
-    const responseText = await response.text();
-    
-    // Slack webhooks return "ok" on success
-    if (responseText.trim() === "ok") {
-      console.log(`[SLACK TEST] ✅ Successfully sent deployment test message to Slack`);
-    } else {
-      console.warn(`[SLACK TEST] ⚠️ Unexpected response from Slack: ${responseText}`);
-      console.log(`[SLACK TEST] ✅ Message sent (response: ${responseText})`);
-    }
-  } catch (error) {
-    console.error("[SLACK TEST] ❌ Failed to send Slack test message:", error);
-    if (error instanceof Error) {
-      console.error("[SLACK TEST] Error message:", error.message);
-      console.error("[SLACK TEST] Error stack:", error.stack);
-    }
-    throw error;
+  if (!result.delivered) {
+    const errors = result.deliveries
+      .filter((d) => d.status !== "delivered")
+      .map((d) => `${d.sink}: ${d.lastError || d.status}`);
+    throw new Error(`Deployment test message not delivered (${errors.join("; ")})`);
   }
+
+  console.log(`[SLACK TEST] ✅ Successfully sent deployment test message`);
 }
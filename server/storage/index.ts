@@ -0,0 +1,107 @@
+import path from "path";
+import { createJsonStorage } from "./json-storage";
+import { createRedisStorage } from "./redis-storage";
+import { migrateLegacyFiles } from "./migrate";
+import { Storage } from "./types";
+
+export type { RecordRange, Storage } from "./types";
+
+const isServerless = !!process.env.VERCEL;
+
+// Local files only last as long as the serverless instance; see getStorage()
+const STORAGE_DIR =
+  process.env.STORAGE_DIR ||
+  (isServerless ? "/tmp/42-bot" : path.join(__dirname, "..", "data"));
+
+const SQLITE_PATH = process.env.SQLITE_PATH || path.join(STORAGE_DIR, "42-bot.sqlite");
+
+// Upstash Redis, or Vercel KV which exposes the same REST API
+const REDIS_URL = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+const REDIS_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+
+const EPHEMERAL_WARNING =
+  "Storing state in /tmp, which Vercel wipes on cold starts: tracked wallets, the market cursor and the outbox will be lost. Configure Upstash Redis or Vercel KV (STORAGE_BACKEND=redis)";
+
+/**
+ * Backend selected by STORAGE_BACKEND; defaults to "redis" when a Redis REST
+ * endpoint is configured, otherwise "json"
+ */
+function getBackend(): string {
+  return (process.env.STORAGE_BACKEND || (REDIS_URL ? "redis" : "json")).toLowerCase();
+}
+
+/**
+ * Whether the selected backend writes to a serverless instance's own disk
+ */
+function isEphemeral(backend: string): boolean {
+  return isServerless && backend !== "redis" && !process.env.STORAGE_DIR && !process.env.SQLITE_PATH;
+}
+
+let storagePromise: Promise<Storage> | null = null;
+
+/**
+ * Create the backend selected by STORAGE_BACKEND ("json", "sqlite" or "redis")
+ */
+function createStorage(): Storage {
+  const backend = getBackend();
+
+  switch (backend) {
+    case "json":
+      return createJsonStorage(STORAGE_DIR);
+    case "sqlite": {
+      // Loaded on demand so the JSON backend never needs the native module
+      const { createSqliteStorage } = require("./sqlite-storage") as typeof import("./sqlite-storage");
+      return createSqliteStorage(SQLITE_PATH);
+    }
+    case "redis":
+      if (!REDIS_URL || !REDIS_TOKEN) {
+        throw new Error(
+          "STORAGE_BACKEND=redis needs UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN (or KV_REST_API_URL and KV_REST_API_TOKEN)"
+        );
+      }
+      return createRedisStorage(REDIS_URL, REDIS_TOKEN);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Expected "json", "sqlite" or "redis"`);
+  }
+}
+
+/**
+ * Get the shared storage instance, migrating legacy JSON files on first use
+ */
+export function getStorage(): Promise<Storage> {
+  if (!storagePromise) {
+    storagePromise = (async () => {
+      const storage = createStorage();
+      console.log(`[STORAGE] Using ${storage.kind} storage`);
+      if (isEphemeral(storage.kind)) {
+        console.warn(`[STORAGE] ⚠️ ${EPHEMERAL_WARNING}`);
+      }
+      await migrateLegacyFiles(storage);
+      return storage;
+    })();
+
+    // Allow a retry on the next call if initialization failed
+    storagePromise.catch(() => {
+      storagePromise = null;
+    });
+  }
+  return storagePromise;
+}
+
+/**
+ * Describe the storage configuration (for the debug endpoint)
+ */
+export function describeStorage() {
+  const backend = getBackend();
+  const locations: Record<string, string | null> = {
+    json: STORAGE_DIR,
+    sqlite: SQLITE_PATH,
+    // Only the host, since the URL may carry credentials
+    redis: REDIS_URL ? REDIS_URL.replace(/^https?:\/\//, "").split("/")[0] : null,
+  };
+  return {
+    backend,
+    location: locations[backend] ?? null,
+    warning: isEphemeral(backend) ? EPHEMERAL_WARNING : undefined,
+  };
+}
@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { RecordRange, Storage, StoredRecord } from "./types";
+
+/**
+ * Map a key to a safe file name, e.g. "wallet-snapshot:0xabc" -> "wallet-snapshot_0xabc"
+ */
+function toFileName(key: string): string {
+  return key.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    const data = await fs.readFile(file, "utf-8");
+    return JSON.parse(data);
+  } catch {
+    // File doesn't exist
+    return null;
+  }
+}
+
+/**
+ * Write via a temp file so a crash mid-write never leaves a truncated file
+ * Each write gets its own temp file, so concurrent writers never share one
+ */
+async function writeJson(file: string, value: unknown): Promise<void> {
+  const tmpFile = `${file}.${process.pid}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(value, null, 2), "utf-8");
+  await fs.rename(tmpFile, file);
+}
+
+/**
+ * Storage backed by one JSON file per key and per record stream
+ * @param dir - Directory holding the files (created if missing)
+ */
+export function createJsonStorage(dir: string): Storage {
+  const valuesDir = path.join(dir, "values");
+  const recordsDir = path.join(dir, "records");
+  let ready: Promise<void> | null = null;
+
+  const ensureDirs = () => {
+    if (!ready) {
+      ready = Promise.all([
+        fs.mkdir(valuesDir, { recursive: true }),
+        fs.mkdir(recordsDir, { recursive: true }),
+      ]).then(() => undefined);
+    }
+    return ready;
+  };
+
+  const valueFile = (key: string) => path.join(valuesDir, `${toFileName(key)}.json`);
+  const recordFile = (stream: string) => path.join(recordsDir, `${toFileName(stream)}.json`);
+
+  // Pending writes per file, so read-modify-write updates of one file never interleave
+  const fileLocks = new Map<string, Promise<void>>();
+
+  const withFileLock = (file: string, fn: () => Promise<void>): Promise<void> => {
+    const previous = fileLocks.get(file) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    fileLocks.set(file, next);
+    next
+      .catch(() => undefined)
+      .then(() => {
+        if (fileLocks.get(file) === next) fileLocks.delete(file);
+      });
+    return next;
+  };
+
+  // Keys are stored inside each file, since file names are lossy
+  type ValueFile<T> = { key: string; value: T };
+
+  return {
+    kind: "json",
+
+    async get<T>(key: string): Promise<T | null> {
+      await ensureDirs();
+      const file = await readJson<ValueFile<T>>(valueFile(key));
+      return file ? file.value : null;
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      await ensureDirs();
+      const file = valueFile(key);
+      await withFileLock(file, () => writeJson(file, { key, value }));
+    },
+
+    // Atomic within this process, which is the only writer of its directory
+    async compareAndSet<T>(key: string, expected: T | null, value: T): Promise<boolean> {
+      await ensureDirs();
+      const file = valueFile(key);
+      let matched = false;
+      await withFileLock(file, async () => {
+        const current = await readJson<ValueFile<T>>(file);
+        matched = JSON.stringify(current ? current.value : null) === JSON.stringify(expected);
+        if (matched) {
+          await writeJson(file, { key, value });
+        }
+      });
+      return matched;
+    },
+
+    async delete(key: string): Promise<void> {
+      await ensureDirs();
+      const file = valueFile(key);
+      await withFileLock(file, () => fs.rm(file, { force: true }));
+    },
+
+    async keys(prefix: string): Promise<string[]> {
+      await ensureDirs();
+      const files = await fs.readdir(valuesDir);
+      // A key's file name starts with the mapped prefix, so only those files are read
+      const filePrefix = toFileName(prefix);
+      const keys: string[] = [];
+      for (const name of files) {
+        if (!name.endsWith(".json") || !name.startsWith(filePrefix)) continue;
+        const file = await readJson<ValueFile<unknown>>(path.join(valuesDir, name));
+        if (file && file.key.startsWith(prefix)) {
+          keys.push(file.key);
+        }
+      }
+      return keys;
+    },
+
+    async appendRecord<T>(stream: string, timestamp: string, value: T): Promise<void> {
+      await ensureDirs();
+      const file = recordFile(stream);
+      await withFileLock(file, async () => {
+        const records = (await readJson<StoredRecord<T>[]>(file)) || [];
+        records.push({ timestamp, value });
+        await writeJson(file, records);
+      });
+    },
+
+    async listRecords<T>(stream: string, range: RecordRange = {}): Promise<T[]> {
+      await ensureDirs();
+      const records = (await readJson<StoredRecord<T>[]>(recordFile(stream))) || [];
+      return records
+        .filter(
+          (r) =>
+            (!range.from || r.timestamp >= range.from) &&
+            (!range.to || r.timestamp <= range.to)
+        )
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .map((r) => r.value);
+    },
+
+    async pruneRecords(stream: string, before: string): Promise<void> {
+      await ensureDirs();
+      const file = recordFile(stream);
+      await withFileLock(file, async () => {
+        const records = await readJson<StoredRecord<unknown>[]>(file);
+        if (!records) return;
+        const kept = records.filter((r) => r.timestamp >= before);
+        if (kept.length !== records.length) {
+          await writeJson(file, kept);
+        }
+      });
+    },
+  };
+}
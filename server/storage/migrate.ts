@@ -0,0 +1,109 @@
+import fs from "fs/promises";
+import path from "path";
+import { Storage } from "./types";
+
+/**
+ * Legacy JSON files written next to the server before the storage layer existed
+ * Serverless instances kept them in /tmp, which does not outlive a cold start,
+ * so there is nothing to import there unless LEGACY_DIR points at a copy
+ */
+const LEGACY_DIR =
+  process.env.LEGACY_DIR || (process.env.VERCEL ? null : path.join(__dirname, ".."));
+
+async function readLegacyFile(dir: string, name: string): Promise<unknown> {
+  try {
+    const data = await fs.readFile(path.join(dir, name), "utf-8");
+    return JSON.parse(data);
+  } catch {
+    // File doesn't exist or is unreadable, nothing to migrate
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+interface LegacyMigration {
+  name: string; // Marker key suffix, so each file is imported once
+  file: string;
+  run: (storage: Storage, data: unknown) => Promise<void>;
+}
+
+const MIGRATIONS: LegacyMigration[] = [
+  {
+    name: "tracked-wallets",
+    file: "tracked-wallets.json",
+    run: async (storage, data) => {
+      if (!Array.isArray(data)) return;
+      if ((await storage.get("tracked-wallets")) === null) {
+        await storage.set("tracked-wallets", data);
+      }
+    },
+  },
+  {
+    name: "known-markets",
+    file: "known-markets.json",
+    run: async (storage, data) => {
+      if (!isRecord(data)) return;
+      if ((await storage.get("known-markets")) === null) {
+        await storage.set("known-markets", data);
+      }
+    },
+  },
+  {
+    name: "wallet-snapshots",
+    file: "wallet-snapshots.json",
+    run: async (storage, data) => {
+      if (!isRecord(data)) return;
+      for (const [address, snapshot] of Object.entries(data)) {
+        const key = `wallet-snapshot:${address.toLowerCase()}`;
+        if ((await storage.get(key)) === null) {
+          await storage.set(key, snapshot);
+        }
+      }
+    },
+  },
+  {
+    name: "wallet-history",
+    file: "wallet-history.json",
+    run: async (storage, data) => {
+      if (!isRecord(data)) return;
+      for (const [address, points] of Object.entries(data)) {
+        if (!Array.isArray(points)) continue;
+        for (const point of points) {
+          if (!isRecord(point) || typeof point.timestamp !== "string") continue;
+          await storage.appendRecord(
+            `wallet-history:${address.toLowerCase()}`,
+            point.timestamp,
+            point
+          );
+        }
+      }
+    },
+  },
+];
+
+/**
+ * Import legacy JSON files into the configured storage
+ * Each file is imported at most once; a marker key records completed imports
+ */
+export async function migrateLegacyFiles(storage: Storage): Promise<void> {
+  if (!LEGACY_DIR) return;
+
+  for (const migration of MIGRATIONS) {
+    const markerKey = `migrations:${migration.name}`;
+    if ((await storage.get(markerKey)) !== null) {
+      continue;
+    }
+
+    const data = await readLegacyFile(LEGACY_DIR, migration.file);
+    if (data !== null) {
+      console.log(`[STORAGE] Migrating legacy ${migration.file} into ${storage.kind} storage...`);
+      await migration.run(storage, data);
+      console.log(`[STORAGE] ✅ Migrated ${migration.file}`);
+    }
+
+    await storage.set(markerKey, { migratedAt: new Date().toISOString(), found: data !== null });
+  }
+}
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { RecordRange, Storage } from "./types";
+
+// Each REST call is given this long before it is aborted
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Prefix of every key, so the database can be shared with other apps
+const KEY_PREFIX = "42-bot:";
+
+/**
+ * Stored member of a record stream's sorted set
+ * The nonce keeps identical records at one timestamp from collapsing into one member
+ */
+interface RedisRecord<T> {
+  timestamp: string;
+  value: T;
+  nonce: string;
+}
+
+// Sets KEYS[1] to ARGV[2] if it holds ARGV[1]; an empty ARGV[1] means the key must be unset
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if (current == false and ARGV[1] == "") or current == ARGV[1] then
+  redis.call("SET", KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Escape the glob characters SCAN's MATCH understands
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&");
+}
+
+/**
+ * Storage backed by Redis over the Upstash REST API (also used by Vercel KV)
+ * Keyed values are strings holding JSON; record streams are sorted sets scored
+ * by timestamp, so a range query is one ZRANGE
+ * @param url - REST endpoint, e.g. UPSTASH_REDIS_REST_URL
+ * @param token - REST token, e.g. UPSTASH_REDIS_REST_TOKEN
+ */
+export function createRedisStorage(url: string, token: string): Storage {
+  const endpoint = url.replace(/\/+$/, "");
+
+  async function command<T>(...args: Array<string | number>): Promise<T> {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args.map(String)),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const body = (await response.json().catch(() => null)) as { result?: T; error?: string } | null;
+    if (!response.ok || !body || body.error) {
+      throw new Error(`Redis ${args[0]} failed: ${body?.error || `${response.status} ${response.statusText}`}`);
+    }
+    return body.result as T;
+  }
+
+  const valueKey = (key: string) => `${KEY_PREFIX}kv:${key}`;
+  const recordKey = (stream: string) => `${KEY_PREFIX}records:${stream}`;
+  const toScore = (timestamp: string) => new Date(timestamp).getTime();
+
+  return {
+    kind: "redis",
+
+    async get<T>(key: string): Promise<T | null> {
+      const value = await command<string | null>("GET", valueKey(key));
+      return value === null ? null : JSON.parse(value);
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      await command("SET", valueKey(key), JSON.stringify(value));
+    },
+
+    async compareAndSet<T>(key: string, expected: T | null, value: T): Promise<boolean> {
+      const result = await command<number>(
+        "EVAL",
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        valueKey(key),
+        expected === null ? "" : JSON.stringify(expected),
+        JSON.stringify(value)
+      );
+      return result === 1;
+    },
+
+    async delete(key: string): Promise<void> {
+      await command("DEL", valueKey(key));
+    },
+
+    async keys(prefix: string): Promise<string[]> {
+      const stripped = valueKey("");
+      const pattern = `${escapeGlob(valueKey(prefix))}*`;
+      const keys: string[] = [];
+      let cursor = "0";
+      do {
+        const [next, batch] = await command<[string, string[]]>("SCAN", cursor, "MATCH", pattern, "COUNT", 1000);
+        keys.push(...batch.map((key) => key.slice(stripped.length)));
+        cursor = String(next);
+      } while (cursor !== "0");
+      return keys.sort();
+    },
+
+    async appendRecord<T>(stream: string, timestamp: string, value: T): Promise<void> {
+      const record: RedisRecord<T> = { timestamp, value, nonce: crypto.randomBytes(6).toString("hex") };
+      await command("ZADD", recordKey(stream), toScore(timestamp), JSON.stringify(record));
+    },
+
+    async listRecords<T>(stream: string, range: RecordRange = {}): Promise<T[]> {
+      const members = await command<string[]>(
+        "ZRANGE",
+        recordKey(stream),
+        range.from ? toScore(range.from) : "-inf",
+        range.to ? toScore(range.to) : "+inf",
+        "BYSCORE"
+      );
+      return members.map((member) => (JSON.parse(member) as RedisRecord<T>).value);
+    },
+
+    async pruneRecords(stream: string, before: string): Promise<void> {
+      // "(" makes the bound exclusive, so records at `before` are kept
+      await command("ZREMRANGEBYSCORE", recordKey(stream), "-inf", `(${toScore(before)}`);
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { RecordRange, Storage } from "./types";
+
+/**
+ * Storage backed by an embedded SQLite database
+ * Keyed values live in `kv`, record streams in `records` indexed by (stream, timestamp)
+ * @param file - Path of the database file (parent directory is created if missing)
+ */
+export function createSqliteStorage(file: string): Storage {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS kv (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS records (
+      stream TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      value TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS records_stream_timestamp ON records (stream, timestamp);
+  `);
+
+  const getStmt = db.prepare<[string], { value: string }>("SELECT value FROM kv WHERE key = ?");
+  const setStmt = db.prepare<[string, string, string]>(
+    `INSERT INTO kv (key, value, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+  );
+  // BEGIN IMMEDIATE takes the write lock before reading, so other processes cannot interleave
+  const compareAndSetTx = db.transaction((key: string, expected: string | null, value: string) => {
+    const row = getStmt.get(key);
+    if ((row ? row.value : null) !== expected) {
+      return false;
+    }
+    setStmt.run(key, value, new Date().toISOString());
+    return true;
+  });
+  const deleteStmt = db.prepare<[string]>("DELETE FROM kv WHERE key = ?");
+  const keysStmt = db.prepare<[number, string], { key: string }>(
+    "SELECT key FROM kv WHERE substr(key, 1, ?) = ? ORDER BY key"
+  );
+  const appendStmt = db.prepare<[string, string, string]>(
+    "INSERT INTO records (stream, timestamp, value) VALUES (?, ?, ?)"
+  );
+  const listStmt = db.prepare<[string, string, string], { value: string }>(
+    `SELECT value FROM records
+     WHERE stream = ? AND timestamp >= ? AND timestamp <= ?
+     ORDER BY timestamp ASC, rowid ASC`
+  );
+  const pruneStmt = db.prepare<[string, string]>(
+    "DELETE FROM records WHERE stream = ? AND timestamp < ?"
+  );
+
+  return {
+    kind: "sqlite",
+
+    async get<T>(key: string): Promise<T | null> {
+      const row = getStmt.get(key);
+      return row ? JSON.parse(row.value) : null;
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      setStmt.run(key, JSON.stringify(value), new Date().toISOString());
+    },
+
+    async compareAndSet<T>(key: string, expected: T | null, value: T): Promise<boolean> {
+      return compareAndSetTx.immediate(
+        key,
+        expected === null ? null : JSON.stringify(expected),
+        JSON.stringify(value)
+      );
+    },
+
+    async delete(key: string): Promise<void> {
+      deleteStmt.run(key);
+    },
+
+    async keys(prefix: string): Promise<string[]> {
+      return keysStmt.all(prefix.length, prefix).map((row) => row.key);
+    },
+
+    async appendRecord<T>(stream: string, timestamp: string, value: T): Promise<void> {
+      appendStmt.run(stream, timestamp, JSON.stringify(value));
+    },
+
+    async listRecords<T>(stream: string, range: RecordRange = {}): Promise<T[]> {
+      // "~" sorts after every ISO timestamp, so an open upper bound matches everything
+      return listStmt
+        .all(stream, range.from || "", range.to || "~")
+        .map((row) => JSON.parse(row.value));
+    },
+
+    async pruneRecords(stream: string, before: string): Promise<void> {
+      pruneStmt.run(stream, before);
+    },
+  };
+}
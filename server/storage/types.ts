@@ -0,0 +1,49 @@
+/**
+ * Storage backend used for all persistent bot state
+ *
+ * Two kinds of data are stored:
+ * - Keyed values: whole documents replaced on write (tracked wallets, market cursor, monitor state)
+ * - Record streams: append-only time series queried by timestamp range (portfolio history)
+ */
+export interface Storage {
+  /** Name of the backend, e.g. "json" or "sqlite" */
+  readonly kind: string;
+
+  /** Get a keyed value, or null if it was never set */
+  get<T>(key: string): Promise<T | null>;
+
+  /** Set or replace a keyed value */
+  set<T>(key: string, value: T): Promise<void>;
+
+  /**
+   * Set a keyed value only if it still holds `expected` (null: only if it is unset)
+   * Values are compared by their JSON, so pass the value as read from get()
+   * @returns whether the value was set
+   */
+  compareAndSet<T>(key: string, expected: T | null, value: T): Promise<boolean>;
+
+  /** Delete a keyed value (no-op if missing) */
+  delete(key: string): Promise<void>;
+
+  /** List keys starting with a prefix */
+  keys(prefix: string): Promise<string[]>;
+
+  /** Append a record to a stream */
+  appendRecord<T>(stream: string, timestamp: string, value: T): Promise<void>;
+
+  /** List records of a stream within an inclusive ISO timestamp range, oldest first */
+  listRecords<T>(stream: string, range?: RecordRange): Promise<T[]>;
+
+  /** Delete records of a stream older than a timestamp */
+  pruneRecords(stream: string, before: string): Promise<void>;
+}
+
+export interface RecordRange {
+  from?: string; // Inclusive ISO timestamp
+  to?: string; // Inclusive ISO timestamp
+}
+
+export interface StoredRecord<T> {
+  timestamp: string;
+  value: T;
+}
@@ -0,0 +1,187 @@
+import { getStorage } from "./storage";
+
+const TRACKED_WALLETS_KEY = "tracked-wallets";
+
+export const DEFAULT_INTERVAL_MINUTES = 5;
+
+// Cron invocations drift by a few seconds, so a wallet reported at 12:00:03
+// must still count as due at 12:05:01
+const INTERVAL_TOLERANCE_MS = 30 * 1000;
+
+export interface TrackedWallet {
+  address: string; // Lowercase wallet address
+  label?: string; // Human-readable name shown instead of the address
+  tags: string[]; // Free-form lowercase tags, e.g. "team", "whale", "competitor"
+  group?: string; // Wallets in the same group are run as one book
+  notes?: string;
+  enabled: boolean; // Whether the wallet monitor reports on this wallet
+  intervalMinutes: number; // Minimum minutes between two reports
+  lastReportAt?: string; // ISO timestamp of the last report
+}
+
+/**
+ * Fields of a tracked wallet that can be set through the API
+ */
+export type TrackedWalletUpdate = Partial<
+  Pick<TrackedWallet, "label" | "tags" | "group" | "notes" | "enabled" | "intervalMinutes">
+>;
+
+export interface TrackedWalletFilter {
+  tag?: string;
+  group?: string;
+}
+
+/**
+ * Convert a stored entry to a TrackedWallet
+ * Older data stores bare address strings, so those get the default settings
+ */
+function normalizeTrackedWallet(entry: string | Partial<TrackedWallet>): TrackedWallet {
+  if (typeof entry === "string") {
+    return {
+      address: entry.toLowerCase(),
+      tags: [],
+      enabled: true,
+      intervalMinutes: DEFAULT_INTERVAL_MINUTES,
+    };
+  }
+
+  return {
+    address: (entry.address || "").toLowerCase(),
+    label: entry.label,
+    tags: entry.tags || [],
+    group: entry.group,
+    notes: entry.notes,
+    enabled: entry.enabled !== false,
+    intervalMinutes: entry.intervalMinutes || DEFAULT_INTERVAL_MINUTES,
+    lastReportAt: entry.lastReportAt,
+  };
+}
+
+/**
+ * Read tracked wallets
+ */
+export async function getTrackedWallets(): Promise<TrackedWallet[]> {
+  const storage = await getStorage();
+  const entries =
+    (await storage.get<Array<string | Partial<TrackedWallet>>>(TRACKED_WALLETS_KEY)) || [];
+  return entries.map(normalizeTrackedWallet);
+}
+
+/**
+ * Write tracked wallets
+ */
+export async function saveTrackedWallets(wallets: TrackedWallet[]): Promise<void> {
+  const storage = await getStorage();
+  await storage.set(TRACKED_WALLETS_KEY, wallets);
+}
+
+/**
+ * Record that a report was sent for a wallet
+ * Re-reads the list so edits made through the API during a run are kept
+ */
+export async function markWalletReported(
+  address: string,
+  reportedAt: string
+): Promise<void> {
+  const wallets = await getTrackedWallets();
+  const wallet = wallets.find((w) => w.address === address.toLowerCase());
+  if (!wallet) {
+    return;
+  }
+  wallet.lastReportAt = reportedAt;
+  await saveTrackedWallets(wallets);
+}
+
+/**
+ * Keep the wallets matching a tag and/or group (case-insensitive)
+ */
+export function filterTrackedWallets(
+  wallets: TrackedWallet[],
+  filter: TrackedWalletFilter
+): TrackedWallet[] {
+  const tag = filter.tag?.toLowerCase();
+  const group = filter.group?.toLowerCase();
+  return wallets.filter(
+    (w) =>
+      (!tag || w.tags.includes(tag)) &&
+      (!group || w.group?.toLowerCase() === group)
+  );
+}
+
+/**
+ * Name to show for a wallet in messages: its label, or the shortened address
+ */
+export function walletDisplayName(wallet: Pick<TrackedWallet, "address" | "label">): string {
+  return wallet.label || `${wallet.address.slice(0, 6)}...${wallet.address.slice(-4)}`;
+}
+
+/**
+ * Check whether a wallet is enabled and its interval has elapsed
+ */
+export function isWalletDue(wallet: TrackedWallet, now: Date = new Date()): boolean {
+  if (!wallet.enabled) {
+    return false;
+  }
+  if (!wallet.lastReportAt) {
+    return true;
+  }
+  const elapsedMs = now.getTime() - new Date(wallet.lastReportAt).getTime();
+  return elapsedMs + INTERVAL_TOLERANCE_MS >= wallet.intervalMinutes * 60 * 1000;
+}
+
+/**
+ * Validate the editable fields of a tracked wallet supplied through the API
+ * Empty strings clear label, group and notes
+ * @returns the fields to apply, or an error message
+ */
+export function parseTrackedWalletUpdate(
+  body: Record<string, unknown>
+): { update: TrackedWalletUpdate } | { error: string } {
+  const update: TrackedWalletUpdate = {};
+
+  for (const field of ["label", "group", "notes"] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string") {
+      return { error: `${field} must be a string` };
+    }
+    update[field] = value.trim() || undefined;
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some((t) => typeof t !== "string")) {
+      return { error: "tags must be an array of strings" };
+    }
+    const tags = (body.tags as string[]).map((t) => t.trim().toLowerCase()).filter(Boolean);
+    update.tags = Array.from(new Set(tags));
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") {
+      return { error: "enabled must be a boolean" };
+    }
+    update.enabled = body.enabled;
+  }
+
+  if (body.intervalMinutes !== undefined) {
+    const interval = parseIntervalMinutes(body.intervalMinutes);
+    if (interval === null) {
+      return { error: "intervalMinutes must be a positive integer" };
+    }
+    update.intervalMinutes = interval;
+  }
+
+  return { update };
+}
+
+/**
+ * Validate an interval supplied through the API
+ * @returns the interval in minutes, or null if invalid
+ */
+export function parseIntervalMinutes(value: unknown): number | null {
+  const minutes = typeof value === "string" ? Number(value) : value;
+  if (typeof minutes !== "number" || !Number.isInteger(minutes) || minutes < 1) {
+    return null;
+  }
+  return minutes;
+}
@@ -0,0 +1,38 @@
+import { findUpstreamError, UpstreamUnavailable } from "../lib/for-wenbo-main/resilience";
+
+/**
+ * The parts of an Express (or Vercel) response used here
+ */
+interface ErrorResponse {
+  setHeader(name: string, value: string): unknown;
+  status(code: number): { json(body: unknown): unknown };
+}
+
+/**
+ * Answer with 503 (upstream unavailable) or 502 (upstream rejected the query)
+ * if the error came from Hasura or the RPC
+ * @returns false if the error is not an upstream error and still needs a response
+ */
+export function sendUpstreamError(res: ErrorResponse, error: unknown): boolean {
+  const upstreamError = findUpstreamError(error);
+  if (!upstreamError) {
+    return false;
+  }
+
+  if (upstreamError instanceof UpstreamUnavailable) {
+    res.setHeader("Retry-After", String(upstreamError.retryAfterSeconds));
+    res.status(503).json({
+      error: "Upstream unavailable",
+      upstream: upstreamError.upstream,
+      message: upstreamError.message,
+      retryAfterSeconds: upstreamError.retryAfterSeconds,
+    });
+  } else {
+    res.status(502).json({
+      error: "Upstream query failed",
+      upstream: upstreamError.upstream,
+      message: upstreamError.message,
+    });
+  }
+  return true;
+}
@@ -0,0 +1,163 @@
+import { ResolvedMarketHolding, WalletPosition } from "../lib/for-wenbo-main/queries/wallet";
+import { WalletSnapshot } from "./wallet-snapshots";
+
+// Ignore float noise from *_hmr values and sub-cent cash movements
+const QUANTITY_EPSILON = 1e-6;
+const CASH_EPSILON = 0.01;
+
+export type WalletChangeType =
+  | "opened"
+  | "closed"
+  | "increased"
+  | "decreased"
+  | "resolved_won"
+  | "resolved_lost"
+  | "cash";
+
+export interface WalletChange {
+  type: WalletChangeType;
+  market_address?: string;
+  token_id?: string;
+  previousQuantity?: number;
+  quantity?: number;
+  previousValue: number;
+  value: number;
+  valueChange: number;
+}
+
+function positionKey(position: WalletPosition): string {
+  return `${position.market_address.toLowerCase()}-${position.token_id}`;
+}
+
+function positionChange(
+  type: WalletChangeType,
+  previous: WalletPosition | undefined,
+  current: WalletPosition | undefined
+): WalletChange {
+  const position = (current || previous)!;
+  const previousValue = previous?.value || 0;
+  const value = current?.value || 0;
+  return {
+    type,
+    market_address: position.market_address,
+    token_id: position.token_id,
+    previousQuantity: previous?.quantity || 0,
+    quantity: current?.quantity || 0,
+    previousValue,
+    value,
+    valueChange: value - previousValue,
+  };
+}
+
+/**
+ * Unresolved positions of the previous snapshot that are gone from the current one
+ * Finalising a market burns its tokens, so these may have resolved rather than been sold;
+ * pass the wallet's resolved markets to diffWalletSnapshots to tell them apart
+ */
+export function vanishedUnresolvedPositions(
+  previous: WalletSnapshot,
+  current: WalletSnapshot
+): WalletPosition[] {
+  const currentKeys = new Set(current.positions.map(positionKey));
+  return previous.positions.filter((p) => !p.is_resolved && !currentKeys.has(positionKey(p)));
+}
+
+/**
+ * Resolution of a position whose tokens were burned when its market was finalised
+ * @returns the change valued at the payout of the quantity held at resolution,
+ *          or null if the position's market is not among the resolved ones
+ */
+function burnedResolution(
+  previous: WalletPosition,
+  resolvedMarkets: ResolvedMarketHolding[]
+): WalletChange | null {
+  const market = resolvedMarkets.find(
+    (m) => m.market_address.toLowerCase() === previous.market_address.toLowerCase()
+  );
+  const token = market?.tokens.find((t) => t.token_id === previous.token_id);
+  if (!token) {
+    return null;
+  }
+  return {
+    type: token.is_winning ? "resolved_won" : "resolved_lost",
+    market_address: previous.market_address,
+    token_id: previous.token_id,
+    previousQuantity: previous.quantity,
+    quantity: token.quantity,
+    previousValue: previous.value,
+    value: token.expected_payout,
+    valueChange: token.expected_payout - previous.value,
+  };
+}
+
+/**
+ * Compare two observations of the same wallet
+ * @param resolvedMarkets - The wallet's resolved markets (getWalletResolvedMarkets), needed
+ *        when a position vanished (see vanishedUnresolvedPositions); without them such a
+ *        position is reported as closed
+ * @returns one entry per opened, closed, grown, shrunk or resolved position,
+ *          plus a cash entry if the USDC balance moved
+ */
+export function diffWalletSnapshots(
+  previous: WalletSnapshot,
+  current: WalletSnapshot,
+  resolvedMarkets: ResolvedMarketHolding[] = []
+): WalletChange[] {
+  const changes: WalletChange[] = [];
+  const previousPositions = new Map(
+    previous.positions.map((p) => [positionKey(p), p])
+  );
+  const currentPositions = new Map(
+    current.positions.map((p) => [positionKey(p), p])
+  );
+
+  for (const [key, position] of currentPositions) {
+    const before = previousPositions.get(key);
+
+    if (!before) {
+      changes.push(positionChange("opened", undefined, position));
+      continue;
+    }
+
+    if (!before.is_resolved && position.is_resolved) {
+      changes.push(
+        positionChange(
+          position.is_winning ? "resolved_won" : "resolved_lost",
+          before,
+          position
+        )
+      );
+      continue;
+    }
+
+    const quantityChange = position.quantity - before.quantity;
+    if (quantityChange > QUANTITY_EPSILON) {
+      changes.push(positionChange("increased", before, position));
+    } else if (quantityChange < -QUANTITY_EPSILON) {
+      changes.push(positionChange("decreased", before, position));
+    }
+  }
+
+  for (const [key, position] of previousPositions) {
+    if (currentPositions.has(key)) {
+      continue;
+    }
+    const resolution = position.is_resolved ? null : burnedResolution(position, resolvedMarkets);
+    changes.push(resolution || positionChange("closed", position, undefined));
+  }
+
+  // Only compare cash when both balances were actually read
+  if (previous.cash !== null && current.cash !== null) {
+    const cashChange = current.cash - previous.cash;
+    if (Math.abs(cashChange) >= CASH_EPSILON) {
+      changes.push({
+        type: "cash",
+        previousValue: previous.cash,
+        value: current.cash,
+        valueChange: cashChange,
+      });
+    }
+  }
+
+  return changes;
+}
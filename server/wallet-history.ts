@@ -0,0 +1,95 @@
+import { getStorage } from "./storage";
+
+// Snapshots older than this are dropped when a new one is written
+const RETENTION_DAYS = parseInt(process.env.WALLET_HISTORY_RETENTION_DAYS || "") || 365;
+
+/**
+ * One point of a wallet's portfolio time series
+ */
+export interface PortfolioHistoryPoint {
+  timestamp: string; // ISO timestamp of the monitor run
+  portfolio: number; // Total portfolio value
+  cash: number | null; // USDC balance, null if it could not be read
+  positionsValue: number; // Sum of position values
+  positionCount: number; // Number of non-zero positions
+}
+
+export interface HistoryQuery {
+  from?: Date; // Inclusive lower bound
+  to?: Date; // Inclusive upper bound
+  intervalMs?: number; // Bucket size for downsampling
+}
+
+function historyStream(walletAddress: string): string {
+  return `wallet-history:${walletAddress.toLowerCase()}`;
+}
+
+/**
+ * Append a snapshot to a wallet's history and prune expired points
+ */
+export async function appendWalletHistory(
+  walletAddress: string,
+  point: PortfolioHistoryPoint
+): Promise<void> {
+  const storage = await getStorage();
+  const stream = historyStream(walletAddress);
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  await storage.appendRecord(stream, point.timestamp, point);
+  await storage.pruneRecords(stream, cutoff.toISOString());
+}
+
+/**
+ * Get a wallet's history as a time series, oldest first
+ * When intervalMs is set, keeps the last point of each bucket
+ */
+export async function getWalletHistory(
+  walletAddress: string,
+  query: HistoryQuery = {}
+): Promise<PortfolioHistoryPoint[]> {
+  const storage = await getStorage();
+  const points = await storage.listRecords<PortfolioHistoryPoint>(
+    historyStream(walletAddress),
+    {
+      from: query.from?.toISOString(),
+      to: query.to?.toISOString(),
+    }
+  );
+
+  if (!query.intervalMs) {
+    return points;
+  }
+
+  return downsample(points, query.intervalMs);
+}
+
+/**
+ * Keep the last point of each interval-sized bucket
+ */
+function downsample(
+  points: PortfolioHistoryPoint[],
+  intervalMs: number
+): PortfolioHistoryPoint[] {
+  const buckets = new Map<number, PortfolioHistoryPoint>();
+  for (const point of points) {
+    const bucket = Math.floor(new Date(point.timestamp).getTime() / intervalMs);
+    buckets.set(bucket, point);
+  }
+  return Array.from(buckets.values());
+}
+
+/**
+ * Parse an interval such as "15m", "1h" or "1d"
+ * @returns the interval in milliseconds, or null if invalid
+ */
+export function parseInterval(value: string): number | null {
+  const match = /^(\d+)([mhd])$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const amount = parseInt(match[1]);
+  const unitMs = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[
+    match[2] as "m" | "h" | "d"
+  ];
+  return amount > 0 ? amount * unitMs : null;
+}
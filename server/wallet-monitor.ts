@@ -1,294 +1,366 @@
 import {
-  getWalletPortfolio,
+  getWalletPortfolioBreakdown,
   getWalletPositions,
+  getWalletPositionTotals,
+  getWalletResolvedMarkets,
+  ResolvedMarketHolding,
+  WalletPortfolioBreakdown,
   WalletPosition,
 } from "../lib/for-wenbo-main/queries/wallet";
+import { getMarketsWithMetrics } from "../lib/for-wenbo-main/queries/market";
+import {
+  getTrackedWallets,
+  isWalletDue,
+  markWalletReported,
+  TrackedWallet,
+  walletDisplayName,
+} from "./tracked-wallets";
+import { diffWalletSnapshots, vanishedUnresolvedPositions, WalletChange } from "./wallet-changes";
+import { appendWalletHistory } from "./wallet-history";
+import {
+  getWalletSnapshot,
+  saveWalletSnapshot,
+  WalletSnapshot,
+} from "./wallet-snapshots";
+import { formatCurrency, formatCurrencyChange, formatPositions, formatWalletField } from "./format";
+import { buildIdempotencyKey, hasNotificationSinks, notify } from "./notifier";
+import { buildRiskReport, checkRiskLimits, hasRiskLimits } from "./risk";
 
+// How often the monitor looks for due wallets; each wallet has its own interval
 const CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
-const TRACKED_WALLET = "0x303E912232a80607D08705cc679F7DbfBb9FC6b2";
 
 /**
- * Format portfolio value for display
+ * Send wallet portfolio and positions as a full report
  */
-function formatCurrency(value: number): string {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(value);
+async function sendWalletReport(
+  wallet: TrackedWallet,
+  breakdown: WalletPortfolioBreakdown,
+  positions: WalletPosition[]
+): Promise<void> {
+  const walletAddress = wallet.address;
+  console.log(`[WALLET MONITOR] Preparing wallet report for ${walletAddress}...`);
+
+  const totals = await getWalletPositionTotals(walletAddress);
+  const activePositionsCount = positions.filter((p) => !p.is_resolved).length;
+  const resolvedPositionsCount = positions.filter((p) => p.is_resolved).length;
+
+  const timestamp = new Date().toISOString();
+  const dateTime = new Date().toLocaleString("en-US", {
+    timeZone: "UTC",
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+  await notify(
+    {
+      event: "wallet.report",
+      title: "💰 Wallet Portfolio Report",
+      summary: `💰 Wallet Portfolio Report - ${walletDisplayName(wallet)}`,
+      blocks: [
+        {
+          type: "fields",
+          fields: [formatWalletField(wallet), `*Last Updated:*\n${dateTime} UTC`],
+        },
+        { type: "divider" },
+        {
+          type: "fields",
+          fields: [
+            `*Total Portfolio Value:*\n*${formatCurrency(breakdown.total)}*`,
+            `*Positions Value:*\n${formatCurrency(totals.value)}`,
+            `*Cost Basis:*\n${formatCurrency(totals.cost_basis)}`,
+          ],
+        },
+        {
+          type: "fields",
+          fields: [
+            `*Active Positions:*\n${activePositionsCount}`,
+            `*Resolved Positions:*\n${resolvedPositionsCount}`,
+          ],
+        },
+        {
+          type: "fields",
+          fields: [
+            `*Realized PnL:*\n${formatCurrencyChange(totals.realized_pnl)}`,
+            `*Unrealized PnL:*\n${formatCurrencyChange(totals.unrealized_pnl)}`,
+            `*Total PnL:*\n${formatCurrencyChange(totals.total_pnl)}`,
+          ],
+        },
+        ...breakdown.warnings.map((warning) => ({ type: "context" as const, text: `⚠️ ${warning}` })),
+        { type: "divider" },
+        {
+          type: "text",
+          text: `*Top Positions (${positions.length} total):*\n\n${formatPositions(positions)}`,
+        },
+      ],
+    },
+    { idempotencyKey: buildIdempotencyKey("wallet.report", [walletAddress, timestamp]) }
+  );
 }
 
 /**
- * Format positions for Slack message
+ * Format a single detected change for a notification
  */
-function formatPositions(positions: WalletPosition[]): string {
-  if (positions.length === 0) {
-    return "_No active positions_";
+function formatChange(change: WalletChange): string {
+  if (change.type === "cash") {
+    return `💵 *Cash moved:* ${formatCurrency(change.previousValue)} → ${formatCurrency(change.value)} (${formatCurrencyChange(change.valueChange)})`;
   }
 
-  // Limit to top 10 positions by value to avoid message being too long
-  const topPositions = positions
-    .sort((a, b) => b.value - a.value)
-    .slice(0, 10);
-
-  const positionTexts = topPositions.map((pos, index) => {
-    const marketShort = `${pos.market_address.slice(0, 6)}...${pos.market_address.slice(-4)}`;
-    const statusBadge = pos.is_resolved
-      ? pos.is_winning
-        ? "✅ Winning"
-        : "❌ Losing"
-      : "🔄 Active";
-    const pnlSign = pos.realized_pnl >= 0 ? "+" : "";
-    
-    return `${index + 1}. *${marketShort}* (Token: ${pos.token_id})
-   Value: ${formatCurrency(pos.value)} | Qty: ${pos.quantity.toFixed(4)} | Price: $${pos.current_price.toFixed(4)}
-   PnL: ${pnlSign}${formatCurrency(pos.realized_pnl)} | Status: ${statusBadge}`;
-  });
-
-  const remainingCount = positions.length - topPositions.length;
-  const remainingText =
-    remainingCount > 0
-      ? `\n_...and ${remainingCount} more position${remainingCount > 1 ? "s" : ""}_`
-      : "";
+  const market = change.market_address || "";
+  const marketShort = `${market.slice(0, 6)}...${market.slice(-4)}`;
+  const label = {
+    opened: "🆕 Position opened",
+    closed: "🚪 Position closed",
+    increased: "📈 Position increased",
+    decreased: "📉 Position decreased",
+    resolved_won: "✅ Resolved in our favour",
+    resolved_lost: "❌ Resolved against us",
+  }[change.type];
 
-  return positionTexts.join("\n\n") + remainingText;
+  return `${label}: *${marketShort}* (Token: ${change.token_id})
+   Qty: ${(change.previousQuantity || 0).toFixed(4)} → ${(change.quantity || 0).toFixed(4)} | Value: ${formatCurrency(change.previousValue)} → ${formatCurrency(change.value)} (${formatCurrencyChange(change.valueChange)})`;
 }
 
 /**
- * Send wallet portfolio and positions to Slack
+ * Send the changes detected since the last snapshot
  */
-async function sendWalletReportToSlack(
-  slackWebhookUrl: string,
-  walletAddress: string,
-  portfolio: number,
-  positions: WalletPosition[]
+async function sendWalletChanges(
+  wallet: TrackedWallet,
+  previous: WalletSnapshot,
+  current: WalletSnapshot,
+  changes: WalletChange[]
 ): Promise<void> {
-  console.log(`[SLACK REPORT] Preparing wallet report for ${walletAddress}...`);
-  
-  if (!slackWebhookUrl) {
-    console.warn("[SLACK REPORT] ⚠️ SLACK_WEBHOOK_URL not configured, skipping notification");
-    throw new Error("SLACK_WEBHOOK_URL is not provided");
-  }
-  
-  // Validate webhook URL format
-  if (!slackWebhookUrl.startsWith("https://hooks.slack.com/services/")) {
-    console.warn(`[SLACK REPORT] ⚠️ Invalid webhook URL format. Expected to start with 'https://hooks.slack.com/services/'`);
-    console.warn(`[SLACK REPORT] Current URL: ${slackWebhookUrl.substring(0, 50)}...`);
-    throw new Error("Invalid Slack webhook URL format. Must start with 'https://hooks.slack.com/services/'");
-  }
-
-  const totalPositionsValue = positions.reduce((sum, pos) => sum + pos.value, 0);
-  const activePositionsCount = positions.filter((p) => !p.is_resolved).length;
-  const resolvedPositionsCount = positions.filter((p) => p.is_resolved).length;
-  const totalPnL = positions.reduce((sum, pos) => sum + pos.realized_pnl, 0);
+  const walletAddress = wallet.address;
+  console.log(`[WALLET MONITOR] Preparing change alert for ${walletAddress} (${changes.length} change(s))...`);
 
-  const timestamp = new Date().toISOString();
-  const dateTime = new Date().toLocaleString("en-US", {
+  // Portfolios valued without any known cash balance are not comparable
+  const portfolioChange =
+    current.cash !== null && previous.cash !== null ? current.portfolio - previous.portfolio : null;
+  const since = new Date(previous.takenAt).toLocaleString("en-US", {
     timeZone: "UTC",
     dateStyle: "medium",
     timeStyle: "short",
   });
 
-  const payload = {
-    text: `💰 Wallet Portfolio Report - ${walletAddress.slice(0, 10)}...`,
-    blocks: [
-      {
-        type: "header",
-        text: {
-          type: "plain_text",
-          text: "💰 Wallet Portfolio Report",
+  await notify(
+    {
+      event: "wallet.changes",
+      title: "🔔 Wallet Activity",
+      summary:
+        portfolioChange === null
+          ? `🔔 Wallet Activity - ${walletDisplayName(wallet)}`
+          : `🔔 Wallet Activity - ${walletDisplayName(wallet)} (${formatCurrencyChange(portfolioChange)})`,
+      blocks: [
+        {
+          type: "fields",
+          fields: [
+            formatWalletField(wallet),
+            `*Since:*\n${since} UTC`,
+            `*Total Portfolio Value:*\n*${formatCurrency(current.portfolio)}*`,
+            portfolioChange === null
+              ? "*Change:*\n_unavailable (cash balance unknown)_"
+              : `*Change:*\n${formatCurrencyChange(portfolioChange)}`,
+          ],
         },
-      },
-      {
-        type: "section",
-        fields: [
-          {
-            type: "mrkdwn",
-            text: `*Wallet Address:*\n\`${walletAddress}\``,
-          },
-          {
-            type: "mrkdwn",
-            text: `*Last Updated:*\n${dateTime} UTC`,
-          },
-        ],
-      },
-      {
-        type: "divider",
-      },
-      {
-        type: "section",
-        fields: [
-          {
-            type: "mrkdwn",
-            text: `*Total Portfolio Value:*\n*${formatCurrency(portfolio)}*`,
-          },
-          {
-            type: "mrkdwn",
-            text: `*Positions Value:*\n${formatCurrency(totalPositionsValue)}`,
-          },
-        ],
-      },
-      {
-        type: "section",
-        fields: [
-          {
-            type: "mrkdwn",
-            text: `*Active Positions:*\n${activePositionsCount}`,
-          },
-          {
-            type: "mrkdwn",
-            text: `*Resolved Positions:*\n${resolvedPositionsCount}`,
-          },
-          {
-            type: "mrkdwn",
-            text: `*Total Realized PnL:*\n${formatCurrency(totalPnL)}`,
-          },
-        ],
-      },
-      {
-        type: "divider",
-      },
-      {
-        type: "section",
-        text: {
-          type: "mrkdwn",
-          text: `*Top Positions (${positions.length} total):*\n\n${formatPositions(positions)}`,
+        { type: "divider" },
+        {
+          type: "text",
+          text: changes.map(formatChange).join("\n\n"),
         },
-      },
-    ],
-  };
+      ],
+    },
+    { idempotencyKey: buildIdempotencyKey("wallet.changes", [walletAddress, current.takenAt]) }
+  );
+}
 
-  try {
-    console.log(`[SLACK REPORT] Sending request to Slack webhook...`);
-    console.log(`[SLACK REPORT] Webhook URL: ${slackWebhookUrl.substring(0, 30)}...`);
-    
-    const response = await fetch(slackWebhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
+export interface WalletCheckResult {
+  wallet: string;
+  status: "reported" | "unchanged" | "skipped" | "failed";
+  error?: string;
+}
 
-    console.log(`[SLACK REPORT] Response status: ${response.status} ${response.statusText}`);
+/**
+ * Fetch portfolio and positions for one wallet and send a notification
+ * The first observation of a wallet (or a forced check) sends the full report;
+ * later runs only post when something changed since the last snapshot
+ * @returns whether anything was sent
+ */
+async function checkSingleWallet(
+  wallet: TrackedWallet,
+  fullReport: boolean
+): Promise<boolean> {
+  const walletAddress = wallet.address;
+  console.log(`[WALLET MONITOR] Fetching portfolio and positions for ${walletAddress}...`);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[SLACK REPORT] ❌ Slack API error response: ${errorText}`);
-      throw new Error(
-        `Slack API error: ${response.status} ${response.statusText} - ${errorText}`
-      );
-    }
+  // Fetch portfolio (with cash) and positions
+  let breakdown: WalletPortfolioBreakdown;
+  let positions: WalletPosition[];
 
-    const responseText = await response.text();
-    
-    // Slack webhooks return "ok" on success
-    if (responseText.trim() === "ok") {
-      console.log(`[SLACK REPORT] ✅ Successfully sent wallet report to Slack for ${walletAddress}`);
-    } else {
-      console.warn(`[SLACK REPORT] ⚠️ Unexpected response from Slack: ${responseText}`);
-      console.log(`[SLACK REPORT] ✅ Message sent (response: ${responseText})`);
-    }
+  try {
+    [breakdown, positions] = await Promise.all([
+      getWalletPortfolioBreakdown(walletAddress),
+      getWalletPositions(walletAddress),
+    ]);
   } catch (error) {
-    console.error("[SLACK REPORT] ❌ Failed to send wallet report to Slack:", error);
+    console.error(`[WALLET MONITOR] ❌ Error fetching wallet data for ${walletAddress}:`, error);
     if (error instanceof Error) {
-      console.error("[SLACK REPORT] Error message:", error.message);
-      console.error("[SLACK REPORT] Error stack:", error.stack);
+      console.error("[WALLET MONITOR] Error message:", error.message);
+      if (error.message.includes("ECONNREFUSED") || error.message.includes("localhost")) {
+        console.error("[WALLET MONITOR] ⚠️ CRITICAL: GraphQL endpoint not configured!");
+        console.error("[WALLET MONITOR] Please set NEXT_PUBLIC_HASURA_GQL_ENDPOINT environment variable in Vercel");
+      }
     }
     throw error;
   }
+
+  const previous = await getWalletSnapshot(walletAddress);
+
+  // Without a cash read the breakdown counts cash as $0, which would show as a drop by
+  // the whole balance and a jump back on the next good read; value the portfolio with
+  // the last known balance instead
+  const { cash } = breakdown;
+  const knownCash = cash ?? previous?.cash ?? null;
+  const portfolio = cash === null && knownCash !== null ? breakdown.total + knownCash : breakdown.total;
+  console.log(
+    `[WALLET MONITOR] ✅ Fetched data for ${walletAddress} - Portfolio: $${portfolio.toFixed(2)}, Positions: ${positions.length}`
+  );
+  for (const warning of breakdown.warnings) {
+    console.warn(`[WALLET MONITOR] ⚠️ ${walletAddress}: ${warning}`);
+  }
+
+  // A failed risk check is logged and does not hold up the report
+  // Without the cash balance every share is inflated, so the check waits for a good read
+  // rather than alerting on it and clearing the stored breaches
+  if (hasRiskLimits() && cash === null) {
+    console.warn(`[WALLET MONITOR] ⚠️ Skipping risk check for ${walletAddress}: cash balance unavailable`);
+  } else if (hasRiskLimits()) {
+    try {
+      const markets = await getMarketsWithMetrics();
+      await checkRiskLimits(wallet, buildRiskReport(walletAddress, breakdown, positions, markets));
+    } catch (error) {
+      console.error(`[WALLET MONITOR] ❌ Risk check failed for ${walletAddress}:`, error);
+    }
+  }
+
+  const current: WalletSnapshot = {
+    takenAt: new Date().toISOString(),
+    portfolio,
+    // Keep the last known balance if this read failed, so the next run compares against it
+    cash: knownCash,
+    positions,
+  };
+
+  // A position that vanished may have been burned by its market's finalisation,
+  // which has to be reported as a resolution rather than a close
+  let resolvedMarkets: ResolvedMarketHolding[] = [];
+  if (previous && vanishedUnresolvedPositions(previous, current).length > 0) {
+    resolvedMarkets = await getWalletResolvedMarkets(walletAddress);
+  }
+  const changes = previous ? diffWalletSnapshots(previous, current, resolvedMarkets) : [];
+
+  // A point without any known balance would understate the portfolio, so none is recorded
+  if (knownCash === null) {
+    console.warn(`[WALLET MONITOR] ⚠️ No known cash balance for ${walletAddress}, skipping history point`);
+  } else {
+    await appendWalletHistory(walletAddress, {
+      timestamp: current.takenAt,
+      portfolio,
+      cash: knownCash,
+      positionsValue: positions.reduce((sum, pos) => sum + pos.value, 0),
+      positionCount: positions.length,
+    });
+  }
+
+  if (previous && !fullReport && changes.length === 0) {
+    console.log(`[WALLET MONITOR] No changes for ${walletAddress}, skipping notification`);
+    await saveWalletSnapshot(walletAddress, current);
+    return false;
+  }
+
+  // Send notification
+  if (previous && !fullReport) {
+    console.log(`[WALLET MONITOR] Sending ${changes.length} change(s)...`);
+    await sendWalletChanges(wallet, previous, current, changes);
+  } else {
+    console.log(`[WALLET MONITOR] Sending wallet report...`);
+    await sendWalletReport(wallet, breakdown, positions);
+  }
+
+  // Only move the snapshot forward once the changes are queued in the outbox,
+  // which keeps retrying them if the channel is down
+  await saveWalletSnapshot(walletAddress, current);
+  return true;
 }
 
 /**
- * Check wallet portfolio and positions and send to Slack
+ * Check every tracked wallet that is due and send its changes
+ * A failing wallet is recorded in the results and does not stop the others
+ * @param options.force - Send a full report for every enabled wallet, ignoring intervals
  */
-export async function checkWalletAndSendReport(): Promise<void> {
-  console.log(`[WALLET MONITOR] Starting check for wallet ${TRACKED_WALLET}`);
-  console.log(`[WALLET MONITOR] SLACK_WEBHOOK_URL configured: ${!!process.env.SLACK_WEBHOOK_URL}`);
-  
-  try {
-    // Send test message on first run (for deployment notification)
-    if (isFirstRun) {
-      console.log(`[WALLET MONITOR] First run detected, sending test message...`);
-      isFirstRun = false;
-      try {
-        const { sendSlackTestMessage } = await import("./slack-test");
-        await sendSlackTestMessage();
-        console.log("[WALLET MONITOR] ✅ Successfully sent deployment test message to Slack");
-      } catch (error) {
-        console.error("[WALLET MONITOR] ❌ Failed to send deployment test message:", error);
-        if (error instanceof Error) {
-          console.error("[WALLET MONITOR] Error details:", error.message);
-          console.error("[WALLET MONITOR] Error stack:", error.stack);
-        }
-        // Continue with wallet check even if test message fails
-      }
-    }
-    
-    console.log(`[WALLET MONITOR] Fetching portfolio and positions...`);
-    console.log(`[WALLET MONITOR] GraphQL endpoint: ${process.env.NEXT_PUBLIC_HASURA_GQL_ENDPOINT || process.env.HASURA_GQL_ENDPOINT || "Not set (will use localhost:8080)"}`);
-    
-    // Fetch portfolio and positions
-    let portfolio: number;
-    let positions: WalletPosition[];
-    
+export async function checkWalletAndSendReport(
+  options: { force?: boolean } = {}
+): Promise<WalletCheckResult[]> {
+  console.log(`[WALLET MONITOR] Starting check for tracked wallets`);
+  console.log(`[WALLET MONITOR] Notification sinks configured: ${hasNotificationSinks()}`);
+
+  // Send test message on first run (for deployment notification)
+  if (isFirstRun) {
+    console.log(`[WALLET MONITOR] First run detected, sending test message...`);
+    isFirstRun = false;
     try {
-      [portfolio, positions] = await Promise.all([
-        getWalletPortfolio(TRACKED_WALLET),
-        getWalletPositions(TRACKED_WALLET),
-      ]);
+      const { sendSlackTestMessage } = await import("./slack-test");
+      await sendSlackTestMessage();
+      console.log("[WALLET MONITOR] ✅ Successfully sent deployment test message");
     } catch (error) {
-      console.error("[WALLET MONITOR] ❌ Error fetching wallet data:", error);
+      console.error("[WALLET MONITOR] ❌ Failed to send deployment test message:", error);
       if (error instanceof Error) {
-        console.error("[WALLET MONITOR] Error message:", error.message);
-        if (error.message.includes("ECONNREFUSED") || error.message.includes("localhost")) {
-          console.error("[WALLET MONITOR] ⚠️ CRITICAL: GraphQL endpoint not configured!");
-          console.error("[WALLET MONITOR] Please set NEXT_PUBLIC_HASURA_GQL_ENDPOINT environment variable in Vercel");
-        }
+        console.error("[WALLET MONITOR] Error details:", error.message);
+        console.error("[WALLET MONITOR] Error stack:", error.stack);
       }
-      throw error; // Re-throw to be handled by outer catch
+      // Continue with wallet check even if test message fails
     }
+  }
 
-    console.log(
-      `[WALLET MONITOR] ✅ Fetched data - Portfolio: $${portfolio.toFixed(2)}, Positions: ${positions.length}`
-    );
-
-    // Send Slack notification
-    const slackWebhookUrl = process.env.SLACK_WEBHOOK_URL;
-    if (slackWebhookUrl) {
-      console.log(`[WALLET MONITOR] Sending wallet report to Slack...`);
-      try {
-        await sendWalletReportToSlack(
-          slackWebhookUrl,
-          TRACKED_WALLET,
-          portfolio,
-          positions
-        );
-        console.log(`[WALLET MONITOR] ✅ Successfully sent wallet report to Slack`);
-      } catch (error) {
-        console.error("[WALLET MONITOR] ❌ Failed to send wallet report to Slack:", error);
-        if (error instanceof Error) {
-          console.error("[WALLET MONITOR] Error details:", error.message);
-          console.error("[WALLET MONITOR] Error stack:", error.stack);
-        }
-        // Re-throw to be caught by outer catch
-        throw error;
-      }
-    } else {
-      console.warn(
-        "[WALLET MONITOR] ⚠️ SLACK_WEBHOOK_URL not set - skipping notification"
-      );
+  console.log(`[WALLET MONITOR] GraphQL endpoint: ${process.env.NEXT_PUBLIC_HASURA_GQL_ENDPOINT || process.env.HASURA_GQL_ENDPOINT || "Not set (will use localhost:8080)"}`);
+
+  const wallets = await getTrackedWallets();
+  const now = new Date();
+  const results: WalletCheckResult[] = [];
+
+  console.log(`[WALLET MONITOR] ${wallets.length} tracked wallet(s)`);
+
+  // Check wallets one at a time to keep load on the GraphQL endpoint bounded
+  for (const wallet of wallets) {
+    const isDue = options.force ? wallet.enabled : isWalletDue(wallet, now);
+    if (!isDue) {
+      results.push({ wallet: wallet.address, status: "skipped" });
+      continue;
     }
-  } catch (error) {
-    console.error("[WALLET MONITOR] ❌ Error checking wallet:", error);
-    if (error instanceof Error) {
-      console.error("[WALLET MONITOR] Error message:", error.message);
-      console.error("[WALLET MONITOR] Error stack:", error.stack);
+
+    try {
+      const sent = await checkSingleWallet(wallet, !!options.force);
+      await markWalletReported(wallet.address, new Date().toISOString());
+      results.push({ wallet: wallet.address, status: sent ? "reported" : "unchanged" });
+    } catch (error) {
+      console.error(`[WALLET MONITOR] ❌ Error checking wallet ${wallet.address}:`, error);
+      if (error instanceof Error) {
+        console.error("[WALLET MONITOR] Error message:", error.message);
+        console.error("[WALLET MONITOR] Error stack:", error.stack);
+      }
+      results.push({
+        wallet: wallet.address,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
     }
-    // Re-throw so it can be caught by the calling function (cron endpoint)
-    throw error;
   }
+
+  const count = (status: WalletCheckResult["status"]) =>
+    results.filter((r) => r.status === status).length;
+  console.log(
+    `[WALLET MONITOR] Finished: ${count("reported")} reported, ${count("unchanged")} unchanged, ${count("failed")} failed, ${count("skipped")} skipped`
+  );
+
+  return results;
 }
 
 let intervalId: NodeJS.Timeout | null = null;
@@ -296,7 +368,7 @@ let isFirstRun = true;
 
 /**
  * Start the wallet monitoring service
- * Checks wallet every 5 minutes and sends report to Slack
+ * Looks for due wallets every 5 minutes and sends their reports
  */
 export function startWalletMonitoring(): void {
   if (intervalId) {
@@ -305,7 +377,7 @@ export function startWalletMonitoring(): void {
   }
 
   console.log(
-    `Starting wallet monitoring service for ${TRACKED_WALLET} (checking every 5 minutes)`
+    "Starting wallet monitoring service for tracked wallets (checking every 5 minutes)"
   );
 
   // Run immediately on start
@@ -315,7 +387,9 @@ export function startWalletMonitoring(): void {
 
   // Then run every 5 minutes
   intervalId = setInterval(() => {
-    checkWalletAndSendReport();
+    checkWalletAndSendReport().catch((error) => {
+      console.error("Wallet check failed:", error);
+    });
   }, CHECK_INTERVAL_MS);
 
   console.log("Wallet monitoring service started");
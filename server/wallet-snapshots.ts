@@ -0,0 +1,37 @@
+import { WalletPosition } from "../lib/for-wenbo-main/queries/wallet";
+import { getStorage } from "./storage";
+
+/**
+ * Last observed state of a wallet, used to detect changes between monitor runs
+ */
+export interface WalletSnapshot {
+  takenAt: string; // ISO timestamp of the observation
+  portfolio: number; // Total portfolio value
+  cash: number | null; // USDC balance, null if it could not be read
+  positions: WalletPosition[];
+}
+
+function snapshotKey(walletAddress: string): string {
+  return `wallet-snapshot:${walletAddress.toLowerCase()}`;
+}
+
+/**
+ * Get the last snapshot for a wallet, or null if it was never observed
+ */
+export async function getWalletSnapshot(
+  walletAddress: string
+): Promise<WalletSnapshot | null> {
+  const storage = await getStorage();
+  return storage.get<WalletSnapshot>(snapshotKey(walletAddress));
+}
+
+/**
+ * Replace the last snapshot for a wallet
+ */
+export async function saveWalletSnapshot(
+  walletAddress: string,
+  snapshot: WalletSnapshot
+): Promise<void> {
+  const storage = await getStorage();
+  await storage.set(snapshotKey(walletAddress), snapshot);
+}